@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { HSnippet } from './hsnippet';
+
+// Identifies the snippet to expand through the API or the `hsnips.expandSnippet` command.
+export interface IExpandSnippetOptions {
+  // The trigger of the snippet, a regex snippet is chosen when the trigger matches its regex.
+  trigger?: string;
+  // The description of the snippet, used when there's no trigger.
+  description?: string;
+  // The language whose snippets are searched, the language of the active editor by default.
+  language?: string;
+  // The match groups available to the code blocks of the snippet, replacing the ones of its regex.
+  args?: string[];
+}
+
+// The API returned by the extension, available to other extensions through
+// `vscode.extensions.getExtension('draivin.hsnips').exports`.
+export interface IHSnipsApi {
+  // Expands a snippet in the active editor, replacing the selection, which is available to the
+  // snippet as `${VISUAL}`, resolves to `false` when the snippet isn't found.
+  expandSnippet(options: IExpandSnippetOptions): Promise<boolean>;
+  // The snippets available to a language, including the ones it extends and the ones for all
+  // languages, in the order they're matched.
+  getSnippets(language: string): HSnippet[];
+  // The languages which have snippets.
+  getLanguages(): string[];
+  // Adds snippets, written as the content of an hsnips file, to a language until the returned
+  // disposable is disposed, throws a `ParseError` when the content has errors.
+  registerSnippets(language: string, content: string): vscode.Disposable;
+}
@@ -0,0 +1,132 @@
+import * as readline from 'readline';
+import { HSnippet } from './hsnippet';
+import { HSnippetInstance } from './hsnippetInstance';
+import { IHSnippetFile } from './parser';
+import { getExpansion } from './completion';
+import { getExpansionContext } from './utils';
+import { getHost, setHost } from './host';
+import { nodeHost } from './nodeHost';
+import { createMemoryEditor, MemoryDocument } from './memoryEditor';
+import { readSnippetDir, resolveSnippets } from './snippetFiles';
+import { getDocumentLanguages, getLanguageRules } from './languages';
+
+// Expands snippets outside of vscode, for other editors, scripts and CI checks:
+//   node out/cli.js <snippet directory>
+// Every line of stdin is a request, such as `{"language": "tex", "line": "a mk", "character": 4}`,
+// where `character` is the position of the cursor, the end of the line by default. Every request
+// is answered with a line of JSON on stdout, errors of the snippets are written to stderr. Hooks
+// aren't run, and the scopes of the text aren't known to `context` expressions.
+
+interface IExpansionRequest {
+  language: string;
+  line: string;
+  character?: number;
+}
+
+interface ITextPosition {
+  line: number;
+  character: number;
+}
+
+interface IExpansionResult {
+  expanded: boolean;
+  trigger?: string;
+  description?: string;
+  // The characters of the line replaced by the snippet.
+  range?: { start: number; end: number };
+  // The text of the snippet, and the line once it's expanded.
+  text?: string;
+  result?: string;
+  // The tab stops, where line 0 is the line of the request.
+  tabstops?: { id: number; start: ITextPosition; end: ITextPosition }[];
+  error?: string;
+}
+
+function expand(snippets: HSnippet[], request: IExpansionRequest): IExpansionResult {
+  let document = new MemoryDocument(request.language);
+  document.text = request.line;
+  let editor = createMemoryEditor(document, async (edits) => {
+    document.applyEdits(edits);
+  });
+
+  let character = request.character === undefined ? request.line.length : request.character;
+  let position = new (getHost().Position)(0, character);
+  let completion = getExpansion(editor.document, position, snippets);
+  if (!completion) return { expanded: false };
+
+  let triggerRange = completion.range;
+  let instance = new HSnippetInstance(
+    completion.snippet,
+    editor,
+    triggerRange.start,
+    completion.groups,
+    getExpansionContext(editor, triggerRange, completion.label)
+  );
+
+  // The lines of the snippet are indented like the line it's expanded in.
+  let text = instance.text.replace(/\n/g, `\n${instance.indentation}`);
+  document.applyEdits([{ range: triggerRange, text }]);
+
+  return {
+    expanded: true,
+    trigger: completion.label,
+    description: completion.snippet.description,
+    range: { start: triggerRange.start.character, end: triggerRange.end.character },
+    text,
+    result: document.text,
+    tabstops: instance.getTabstops().map(({ id, range }) => ({
+      id,
+      start: { line: range.start.line, character: range.start.character },
+      end: { line: range.end.line, character: range.end.character },
+    })),
+  };
+}
+
+export function runCli(snippetDirPath: string) {
+  setHost(nodeHost);
+
+  let snippetFiles: Map<string, IHSnippetFile[]> = new Map();
+  readSnippetDir(snippetDirPath, snippetDirPath, snippetFiles, (file, error) => {
+    let message = error instanceof Error ? error.message : error;
+    console.error(`Failed to load snippet file ${file}: ${message}`);
+  });
+
+  // Glob patterns mapping files to languages don't apply, as requests have no file.
+  let rules = getLanguageRules(snippetFiles);
+  let snippetsByLanguage: Map<string, HSnippet[]> = new Map();
+  const getSnippets = (language: string) => {
+    language = language.toLowerCase();
+    if (!snippetsByLanguage.has(language)) {
+      let languages = getDocumentLanguages(language, rules, () => false);
+      snippetsByLanguage.set(language, resolveSnippets(languages, snippetFiles));
+    }
+    return snippetsByLanguage.get(language) as HSnippet[];
+  };
+
+  let lines = readline.createInterface({ input: process.stdin, terminal: false });
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+
+    let result: IExpansionResult;
+    try {
+      let request = JSON.parse(line) as IExpansionRequest;
+      if (typeof request.language != 'string' || typeof request.line != 'string') {
+        throw new Error('Requests need a `language` and a `line`');
+      }
+      result = expand(getSnippets(request.language), request);
+    } catch (error) {
+      result = { expanded: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    console.log(JSON.stringify(result));
+  });
+}
+
+if (require.main === module) {
+  if (process.argv.length != 3) {
+    console.error('Usage: node out/cli.js <snippet directory>');
+    process.exit(2);
+  }
+
+  runCli(process.argv[2]);
+}
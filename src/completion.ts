@@ -1,6 +1,9 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
+import { getHost } from './host';
 import { lineRange } from './utils';
-import { HSnippet } from './hsnippet';
+import { HSnippet, ContextInfo } from './hsnippet';
+import { isSnippetDisabled, profile, ProfileStage } from './profiler';
+import { getSnippetIndex, ITriggerContext } from './snippetIndex';
 
 export class CompletionInfo {
   range: vscode.Range;
@@ -13,23 +16,48 @@ export class CompletionInfo {
     this.snippet = snippet;
     this.label = label;
     this.range = range;
-    this.completionRange = new vscode.Range(range.start, range.start.translate(0, label.length));
+    let { Range } = getHost();
+    this.completionRange = new Range(range.start, range.start.translate(0, label.length));
     this.groups = groups;
   }
+}
+
+interface ICachedSnippetContext {
+  document: vscode.TextDocument;
+  version: number;
+  position: vscode.Position;
+  info: ContextInfo;
+}
+
+// Completions are asked for more than once at the same position, when a change is made and when
+// the completion list is shown, so the last scopes are kept.
+let lastSnippetContext: ICachedSnippetContext | undefined;
+
+// Gets the information context expressions are evaluated with, such as the scopes at `position`.
+export function getSnippetContext(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): ContextInfo {
+  let cached = lastSnippetContext;
+  if (
+    cached &&
+    cached.document === document &&
+    cached.version == document.version &&
+    cached.position.isEqual(position)
+  ) {
+    return cached.info;
+  }
+
+  let info: ContextInfo = { scopes: [] };
 
-  toCompletionItem() {
-    let completionItem = new vscode.CompletionItem(this.label);
-    completionItem.range = this.range;
-    completionItem.detail = this.snippet.description;
-    completionItem.insertText = this.label;
-    completionItem.command = {
-      command: 'hsnips.expand',
-      title: 'expand',
-      arguments: [this],
-    };
-
-    return completionItem;
+  //FIXME: Plain text scope resolution should be fixed in hscopes.
+  if (document.languageId !== 'plaintext') {
+    const scopes = getHost().getScopes(document, position);
+    if (scopes) info = { scopes };
   }
+
+  lastSnippetContext = { document, version: document.version, position, info };
+  return info;
 }
 
 function matchSuffixPrefix(context: string, trigger: string) {
@@ -41,18 +69,20 @@ function matchSuffixPrefix(context: string, trigger: string) {
   return null;
 }
 
-export function getCompletions(
-  document: vscode.TextDocument,
-  position: vscode.Position,
-  snippets: HSnippet[]
-): CompletionInfo[] | CompletionInfo | undefined {
+interface IMatchContext extends ITriggerContext {
+  contextRange: vscode.Range;
+  isPrecedingContextWhitespace: boolean;
+}
+
+function getMatchContext(document: vscode.TextDocument, position: vscode.Position): IMatchContext {
+  let { Range } = getHost();
   let line = document.getText(lineRange(0, position));
 
   // Grab everything until previous whitespace as our matching context.
   let match = line.match(/\S*$/);
   let contextRange = lineRange((match as RegExpMatchArray).index || 0, position);
   let context = document.getText(contextRange);
-  let precedingContextRange = new vscode.Range(
+  let precedingContextRange = new Range(
     position.line,
     0,
     position.line,
@@ -63,38 +93,57 @@ export function getCompletions(
 
   let wordRange = document.getWordRangeAtPosition(position) || contextRange;
   if (wordRange.end != position) {
-    wordRange = new vscode.Range(wordRange.start, position);
+    wordRange = new Range(wordRange.start, position);
   }
   let wordContext = document.getText(wordRange);
 
+  return { line, context, contextRange, isPrecedingContextWhitespace, wordContext };
+}
+
+// Identifies the trigger of a snippet, snippets with the same one hide each other.
+export function getTriggerKey(snippet: HSnippet): string {
+  return snippet.trigger || `\`${snippet.regexp ? snippet.regexp.source : ''}\``;
+}
+
+// Whether a completion wins over another, among snippets with the same priority.
+function isLongerMatch(completion: CompletionInfo, other: CompletionInfo) {
+  return completion.label.length > other.label.length;
+}
+
+// Matches `snippets`, which are sorted by descending priority. The automatic snippet with the
+// highest priority and the longest match is returned if there's one, or else the completions of the
+// snippets which aren't hidden by a snippet with the same trigger and a higher priority.
+function matchSnippets(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  matchContext: IMatchContext,
+  snippets: HSnippet[]
+): CompletionInfo[] | CompletionInfo | undefined {
+  let { Position, Range } = getHost();
+  let { line, context, contextRange, isPrecedingContextWhitespace, wordContext } = matchContext;
   let longContext = null;
 
   let completions = [];
-  let snippetContext = { scopes: [] };
-
-  //FIXME: Plain text scope resolution should be fixed in hscopes.
-  if (document.languageId !== 'plaintext') {
-    try {
-      const hscopesExtension = vscode.extensions.getExtension('draivin.hscopes');
-      if (hscopesExtension && hscopesExtension.isActive && hscopesExtension.exports) {
-        const scopeResult = hscopesExtension.exports.getScopeAt(document, position);
-        if (scopeResult && scopeResult.scopes) {
-          snippetContext = {
-            scopes: scopeResult.scopes,
-          };
-        }
-      }
-    } catch (error) {
-      console.warn('[HSnips] Failed to get scopes from hscopes extension:', error);
-      // 继续使用默认的空 scopes 数组
-    }
-  }
+  let automaticCompletion: CompletionInfo | undefined;
+  // The priority of the first snippet matching each trigger, which hides the snippets with the
+  // same trigger and a lower priority.
+  let triggerPriorities: Map<string, number> = new Map();
+  // The scopes are only looked up once a snippet needs them.
+  let snippetContext: ContextInfo | undefined;
 
   for (let snippet of snippets) {
+    // Once an automatic snippet matches, only the ones with the same priority can replace it.
+    if (automaticCompletion && snippet.priority < automaticCompletion.snippet.priority) break;
+
+    // Snippets which took too long to run are skipped.
+    if (isSnippetDisabled(snippet)) continue;
+
     // 安全执行 contextFilter
-    if (snippet.contextFilter) {
+    const contextFilter = snippet.contextFilter;
+    if (contextFilter) {
       try {
-        if (!snippet.contextFilter(snippetContext)) {
+        let info = snippetContext || (snippetContext = getSnippetContext(document, position));
+        if (!profile(snippet, ProfileStage.ContextFilter, () => contextFilter(info))) {
           continue;
         }
       } catch (error) {
@@ -132,7 +181,7 @@ export function getCompletions(
       }
 
       if (matchingPrefix) {
-        snippetRange = new vscode.Range(position.translate(0, -matchingPrefix.length), position);
+        snippetRange = new Range(position.translate(0, -matchingPrefix.length), position);
         prefixMatches = true;
       }
     } else if (snippet.regexp) {
@@ -140,14 +189,12 @@ export function getCompletions(
 
       if (snippet.multiline) {
         if (!longContext) {
-          let numberPrevLines = vscode.workspace
-            .getConfiguration('hsnips')
-            .get('multiLineContext') as number;
+          let numberPrevLines = getHost().getSetting<number>('multiLineContext') || 0;
 
           longContext = document
             .getText(
-              new vscode.Range(
-                new vscode.Position(Math.max(position.line - numberPrevLines, 0), 0),
+              new Range(
+                new Position(Math.max(position.line - numberPrevLines, 0), 0),
                 position
               )
             )
@@ -157,13 +204,14 @@ export function getCompletions(
         regexContext = longContext;
       }
 
-      let match = snippet.regexp.exec(regexContext);
+      let regexp = snippet.regexp;
+      let match = profile(snippet, ProfileStage.Regex, () => regexp.exec(regexContext));
       if (match) {
         let charOffset = match.index - regexContext.lastIndexOf('\n', match.index) - 1;
         let lineOffset = match[0].split('\n').length - 1;
 
-        snippetRange = new vscode.Range(
-          new vscode.Position(position.line - lineOffset, charOffset),
+        snippetRange = new Range(
+          new Position(position.line - lineOffset, charOffset),
           position
         );
         snippetMatches = true;
@@ -173,13 +221,64 @@ export function getCompletions(
       }
     }
 
+    if (!snippetMatches && !prefixMatches) continue;
+
+    let trigger = getTriggerKey(snippet);
+    let triggerPriority = triggerPriorities.get(trigger);
+    if (triggerPriority === undefined) {
+      triggerPriorities.set(trigger, snippet.priority);
+    } else if (triggerPriority > snippet.priority) {
+      continue;
+    }
+
     let completion = new CompletionInfo(snippet, label, snippetRange, matchGroups);
     if (snippet.automatic && snippetMatches) {
-      return completion;
+      if (!automaticCompletion || isLongerMatch(completion, automaticCompletion)) {
+        automaticCompletion = completion;
+      }
     } else if (prefixMatches) {
       completions.push(completion);
     }
   }
 
-  return completions;
+  return automaticCompletion || completions;
+}
+
+export function getCompletions(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  snippets: HSnippet[]
+): CompletionInfo[] | CompletionInfo | undefined {
+  let matchContext = getMatchContext(document, position);
+  let candidates = getSnippetIndex(snippets).getCandidates(matchContext);
+  return matchSnippets(document, position, matchContext, candidates);
+}
+
+// Matches every snippet in turn, without the index, which the index is benchmarked against.
+export function getCompletionsLinear(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  snippets: HSnippet[]
+): CompletionInfo[] | CompletionInfo | undefined {
+  return matchSnippets(document, position, getMatchContext(document, position), snippets);
+}
+
+// Gets the snippet expanded at `position` without choosing it among the suggestions, the automatic
+// snippet which matches there, or else among the snippets whose whole trigger is before it, the one
+// with the highest priority and the longest trigger.
+export function getExpansion(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  snippets: HSnippet[]
+): CompletionInfo | undefined {
+  let completions = getCompletions(document, position, snippets);
+  if (!completions || !Array.isArray(completions)) return completions;
+
+  let expansion: CompletionInfo | undefined;
+  for (let completion of completions) {
+    if (document.getText(completion.range) != completion.label) continue;
+    if (expansion && completion.snippet.priority < expansion.snippet.priority) break;
+    if (!expansion || isLongerMatch(completion, expansion)) expansion = completion;
+  }
+  return expansion;
 }
@@ -0,0 +1,74 @@
+import { HSnippet } from './hsnippet';
+import { getTriggerKey } from './completion';
+
+// Snippets of a language sharing a trigger: the ones with the highest priority, which are offered
+// together, and the ones they hide.
+export interface ISnippetConflict {
+  trigger: string;
+  languages: string[];
+  used: HSnippet[];
+  shadowed: HSnippet[];
+}
+
+function describeLocation(snippet: HSnippet) {
+  if (!snippet.filePath) return snippet.origin || 'unknown file';
+  return `${snippet.filePath}:${snippet.line}`;
+}
+
+/**
+ * Finds the triggers which several snippets of a language share, from the snippets of every
+ * language, sorted by priority. The conflicts of snippets available to several languages, such as
+ * the ones of `all.hsnips`, are only reported once.
+ */
+export function findConflicts(snippetsByLanguage: Map<string, HSnippet[]>): ISnippetConflict[] {
+  let conflicts: Map<string, ISnippetConflict> = new Map();
+
+  for (let [language, snippets] of snippetsByLanguage) {
+    let snippetsByTrigger: Map<string, HSnippet[]> = new Map();
+    for (let snippet of snippets) {
+      let trigger = getTriggerKey(snippet);
+      if (!snippetsByTrigger.has(trigger)) snippetsByTrigger.set(trigger, []);
+      (snippetsByTrigger.get(trigger) as HSnippet[]).push(snippet);
+    }
+
+    for (let [trigger, triggerSnippets] of snippetsByTrigger) {
+      if (triggerSnippets.length < 2) continue;
+
+      let key = triggerSnippets.map(describeLocation).join('\n');
+      let conflict = conflicts.get(key);
+      if (conflict) {
+        conflict.languages.push(language);
+        continue;
+      }
+
+      let priority = triggerSnippets[0].priority;
+      conflicts.set(key, {
+        trigger,
+        languages: [language],
+        used: triggerSnippets.filter((s) => s.priority == priority),
+        shadowed: triggerSnippets.filter((s) => s.priority < priority),
+      });
+    }
+  }
+
+  return [...conflicts.values()];
+}
+
+export function formatConflict(conflict: ISnippetConflict): string {
+  const describeSnippet = (snippet: HSnippet, status: string) => {
+    let details = [`priority ${snippet.priority}`];
+    if (snippet.automatic) details.push('automatic');
+    // Snippets with a context may not match at the same places.
+    if (snippet.contextFilter) details.push('with a context');
+    let location = describeLocation(snippet);
+    let description = snippet.description ? ` "${snippet.description}"` : '';
+    return `  ${status.padEnd(9)} ${location}${description} (${details.join(', ')})`;
+  };
+
+  let status = conflict.used.length > 1 ? 'ambiguous' : 'used';
+  return [
+    `${conflict.trigger} in ${conflict.languages.join(', ')}`,
+    ...conflict.used.map((snippet) => describeSnippet(snippet, status)),
+    ...conflict.shadowed.map((snippet) => describeSnippet(snippet, 'shadowed')),
+  ].join('\n');
+}
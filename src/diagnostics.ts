@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { parse, ParseError, IParseDiagnostic, IParseOptions } from './parser';
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+export function getDiagnosticCollection(): vscode.DiagnosticCollection {
+  if (!diagnosticCollection) {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('hsnips');
+  }
+
+  return diagnosticCollection;
+}
+
+function toDiagnostic(document: vscode.TextDocument, parseDiagnostic: IParseDiagnostic) {
+  let line = Math.min(Math.max(parseDiagnostic.line - 1, 0), document.lineCount - 1);
+  let textLine = document.lineAt(line);
+  let range = new vscode.Range(
+    line,
+    textLine.firstNonWhitespaceCharacterIndex,
+    line,
+    textLine.range.end.character
+  );
+
+  let diagnostic = new vscode.Diagnostic(range, parseDiagnostic.message);
+  diagnostic.source = 'hsnips';
+  return diagnostic;
+}
+
+// Parses a snippet file and shows the problems found in it in the problems panel.
+export function updateDiagnostics(document: vscode.TextDocument, options: IParseOptions = {}) {
+  let parseDiagnostics: IParseDiagnostic[] = [];
+
+  try {
+    parse(document.getText(), document.fileName, options);
+  } catch (error) {
+    if (error instanceof ParseError) {
+      parseDiagnostics = error.diagnostics;
+    } else {
+      let message = error instanceof Error ? error.message : String(error);
+      parseDiagnostics = [{ line: 1, message }];
+    }
+  }
+
+  getDiagnosticCollection().set(
+    document.uri,
+    parseDiagnostics.map((d) => toDiagnostic(document, d))
+  );
+}
+
+export function clearDiagnostics(document: vscode.TextDocument) {
+  getDiagnosticCollection().delete(document.uri);
+}
@@ -1,90 +1,94 @@
-import * as vscode from 'vscode';
-
-type PositionDelta = { characterDelta: number; lineDelta: number };
-
-export enum GrowthType {
-  Grow,
-  FixLeft,
-  FixRight,
+import type * as vscode from 'vscode';
+import { getHost } from './host';
+
+// Where the edges of a range go when text is inserted right at them, named like vscode's
+// `DecorationRangeBehavior`: an open edge takes the text in, a closed one leaves it out.
+export enum RangeStickiness {
+  // The range grows with the text inserted at either edge, as a placeholder being typed in.
+  OpenOpen,
+  // The range grows with the text inserted at its start, and stays before the text inserted at
+  // its end.
+  OpenClosed,
+  // The range stays after the text inserted at its start, and grows with the text inserted at its
+  // end.
+  ClosedOpen,
 }
 
 export interface IChangeInfo {
   change: vscode.TextDocumentContentChangeEvent;
-  growth: GrowthType;
+  stickiness: RangeStickiness;
 }
 
-function getRangeDelta(
-  range: vscode.Range,
-  change: vscode.TextDocumentContentChangeEvent,
-  growth: GrowthType
-): [PositionDelta, PositionDelta] {
-  let deltaStart = { characterDelta: 0, lineDelta: 0 };
-  let deltaEnd = { characterDelta: 0, lineDelta: 0 };
-
-  let textLines = change.text.split('\n');
-  let lineDelta =
-    change.text.split('\n').length - (change.range.end.line - change.range.start.line + 1);
-  let charDelta = textLines[textLines.length - 1].length - change.range.end.character;
-  if (lineDelta == 0) charDelta += change.range.start.character;
-
-  if (range.start.isAfterOrEqual(change.range.end)) {
-    deltaStart.lineDelta = lineDelta;
-  }
-
-  if (range.end.isAfterOrEqual(change.range.end)) {
-    deltaEnd.lineDelta = lineDelta;
-  }
-
-  if (change.range.end.line == range.start.line)
-    if (
-      (growth == GrowthType.FixRight && range.start.isEqual(change.range.end)) ||
-      range.start.isAfter(change.range.end)
-    ) {
-      deltaStart.characterDelta = charDelta;
-    }
-
-  if (change.range.end.line == range.end.line)
-    if (
-      (growth != GrowthType.FixLeft && range.end.isEqual(change.range.end)) ||
-      range.end.isAfter(change.range.end)
-    ) {
-      deltaEnd.characterDelta = charDelta;
-    }
+// The parts of a document ranges are tracked in, which vscode's documents and the memory documents
+// both have.
+export interface IOffsetDocument {
+  offsetAt(position: vscode.Position): number;
+  positionAt(offset: number): vscode.Position;
+}
 
-  return [deltaStart, deltaEnd];
+/**
+ * Moves an offset of the document along with a change. Offsets before the replaced text and after
+ * it keep their place in the text, while an offset where text is inserted, or inside of the
+ * replaced text, goes before the new text, or after it when `after` is set.
+ */
+export function mapOffset(
+  offset: number,
+  { rangeOffset, rangeLength, text }: vscode.TextDocumentContentChangeEvent,
+  after: boolean
+) {
+  let end = rangeOffset + rangeLength;
+  if (offset < rangeOffset || (offset == rangeOffset && rangeLength > 0)) return offset;
+  if (offset > end || (offset == end && rangeLength > 0)) return offset + text.length - rangeLength;
+  return after ? rangeOffset + text.length : rangeOffset;
 }
 
+/**
+ * A range of a document which follows the changes made to it. The range is kept as offsets, which
+ * vscode gives for every change, so line breaks, be they `\n` or `\r\n`, and changes spanning
+ * several lines need no special handling.
+ */
 export class DynamicRange {
-  range: vscode.Range;
+  start: number;
+  end: number;
+  private document: IOffsetDocument;
+
+  constructor(document: IOffsetDocument, start: number, end: number) {
+    this.document = document;
+    this.start = start;
+    this.end = end;
+  }
 
-  constructor(start: vscode.Position, end: vscode.Position) {
-    this.range = new vscode.Range(start, end);
+  static fromRange(document: IOffsetDocument, range: vscode.Range) {
+    return new DynamicRange(document, document.offsetAt(range.start), document.offsetAt(range.end));
   }
 
-  static fromRange(range: vscode.Range) {
-    return new DynamicRange(range.start, range.end);
+  get range(): vscode.Range {
+    let { Range } = getHost();
+    return new Range(this.document.positionAt(this.start), this.document.positionAt(this.end));
   }
 
+  // Applies the changes of an event, whose offsets are all in the document before any of them, as
+  // vscode gives them. Going through them from the end of the document, each change leaves the
+  // offsets before it as they were.
   update(changes: IChangeInfo[]) {
-    let deltaStart = { characterDelta: 0, lineDelta: 0 };
-    let deltaEnd = { characterDelta: 0, lineDelta: 0 };
+    let ordered = [...changes].sort((a, b) => b.change.rangeOffset - a.change.rangeOffset);
 
-    for (let { change, growth } of changes) {
-      let deltaChange = getRangeDelta(this.range, change, growth);
-
-      deltaStart.characterDelta += deltaChange[0].characterDelta;
-      deltaStart.lineDelta += deltaChange[0].lineDelta;
-      deltaEnd.characterDelta += deltaChange[1].characterDelta;
-      deltaEnd.lineDelta += deltaChange[1].lineDelta;
+    for (let { change, stickiness } of ordered) {
+      let start = mapOffset(this.start, change, stickiness == RangeStickiness.ClosedOpen);
+      let end = mapOffset(this.end, change, stickiness != RangeStickiness.OpenClosed);
+      this.start = start;
+      this.end = Math.max(start, end);
     }
-
-    let [newStart, newEnd] = [this.range.start, this.range.end];
-    newStart = newStart.translate(deltaStart);
-    newEnd = newEnd.translate(deltaEnd);
-    this.range = this.range.with(newStart, newEnd);
   }
 
   contains(range: vscode.Range): boolean {
-    return this.range.contains(range);
+    let start = this.document.offsetAt(range.start);
+    let end = this.document.offsetAt(range.end);
+    return this.start <= start && end <= this.end;
+  }
+
+  // Whether the text a change replaces, or the position where it inserts text, is in the range.
+  containsChange({ rangeOffset, rangeLength }: vscode.TextDocumentContentChangeEvent): boolean {
+    return this.start <= rangeOffset && rangeOffset + rangeLength <= this.end;
   }
 }
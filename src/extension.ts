@@ -1,21 +1,118 @@
 import * as vscode from 'vscode';
-import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
 import * as path from 'path';
 import openExplorer = require('open-file-explorer');
 import { HSnippet } from './hsnippet';
 import { HSnippetInstance } from './hsnippetInstance';
-import { parse } from './parser';
-import { getOldGlobalSnippetDir, getSnippetDirInfo, SnippetDirType } from './utils';
-import { getCompletions, CompletionInfo } from './completion';
+import {
+  createCursorInstances,
+  discardSuspendedSessions,
+  findCursorExpansions,
+  getTypedPositions,
+  ICursorExpansion,
+  SnippetSession,
+  SnippetStack,
+  trackSuspendedSessions,
+} from './snippetSession';
+import { parseFile, IHSnippetFile, IParseOptions } from './parser';
+import {
+  getOldGlobalSnippetDir,
+  describeSnippetDir,
+  findSnippetDir,
+  getExpansionContext,
+  getOutputChannel,
+  getSnippetDirInfo,
+  getSnippetDirs,
+  SnippetDirType,
+} from './utils';
+import { getCompletions, getSnippetContext, CompletionInfo } from './completion';
+import { getSnippetIndex } from './snippetIndex';
+import { findConflicts, formatConflict } from './conflicts';
+import {
+  getDocumentLanguages,
+  getLanguageRules,
+  getScopeLanguage,
+  ILanguageRule,
+  isGlobPattern,
+} from './languages';
 import { COMPLETIONS_TRIGGERS } from './consts';
+import { IExpandSnippetOptions, IHSnipsApi } from './api';
+import { runPostExpandHook, runPostJumpHook, runPreExpandHook } from './hooks';
+import { pickSnippet, disposePreviewDecoration } from './snippetPicker';
+import { exportJsonSnippets } from './jsonSnippets';
+import { formatTestResult, runSnippetFileTests } from './snippetTests';
+import { convertUltiSnips, getUltiSnipsLanguage } from './ultisnips';
+import { readSnippetDir, reportConversionWarnings, resolveSnippets } from './snippetFiles';
+import { clearDiagnostics, getDiagnosticCollection, updateDiagnostics } from './diagnostics';
+import { getHost, setHost } from './host';
+import { vscodeHost } from './vscodeHost';
+import { ISandboxOptions } from './sandbox';
+import { getSlowestSnippets, isSnippetDisabled, PROFILE_STAGE_NAMES, resetProfiles } from './profiler';
 
 const SNIPPETS_BY_LANGUAGE: Map<string, HSnippet[]> = new Map();
-const SNIPPET_STACK: HSnippetInstance[] = [];
+// The snippets of lists of languages, such as a language and the ones it's mapped to, by the list
+// joined with commas.
+const SNIPPETS_BY_LANGUAGES: Map<string, HSnippet[]> = new Map();
+const SNIPPET_STACK = new SnippetStack();
 
 let insertingSnippet = false;
-let snippetDirWatcher: vscode.FileSystemWatcher | undefined;
+let snippetDirWatchers: vscode.FileSystemWatcher[] = [];
 let loadSnippetsTimeout: NodeJS.Timeout | undefined;
 
+// The snippet files read from the snippet directories, by language, and the snippets registered
+// through the API, which come before them.
+let loadedSnippetFiles: Map<string, IHSnippetFile[]> = new Map();
+let registeredSnippetFiles: { language: string; snippetFile: IHSnippetFile }[] = [];
+
+// Every snippet file by language, and the rules mapping other languages and files to them.
+let snippetFilesByLanguage: Map<string, IHSnippetFile[]> = new Map();
+let languageRules: ILanguageRule[] = [];
+// The languages with snippets, of their own or mapped to them, which may be embedded in documents.
+let embeddableLanguages: Set<string> = new Set();
+
+let trustPromptShown = false;
+
+// Versions of vscode without workspace trust trust every workspace.
+function isWorkspaceTrusted() {
+  return vscode.workspace.isTrusted !== false;
+}
+
+function getSandboxOptions(): ISandboxOptions {
+  const config = vscode.workspace.getConfiguration('hsnips.sandbox');
+  return {
+    allowedModules: config.get<string[]>('allowedModules') || [],
+    timeout: config.get<number>('timeout') || 1000,
+  };
+}
+
+// The code of snippets from workspace folders runs in a sandbox, and only once the workspace is
+// trusted, in which case this returns `undefined`.
+function getParseOptions(isWorkspaceFile: boolean): IParseOptions | undefined {
+  if (!isWorkspaceFile) return {};
+  if (!isWorkspaceTrusted()) return undefined;
+  return { sandbox: getSandboxOptions() };
+}
+
+// A snippet file is sandboxed when its directory is, as when it's loaded, and files outside of the
+// snippet directories are when they're in a workspace folder.
+function getDocumentParseOptions(context: vscode.ExtensionContext, document: vscode.TextDocument) {
+  const dirInfo = findSnippetDir(context, document.uri.fsPath);
+  if (dirInfo) return getParseOptions(dirInfo.type == SnippetDirType.Workspace);
+  return getParseOptions(vscode.workspace.getWorkspaceFolder(document.uri) !== undefined);
+}
+
+async function promptWorkspaceTrust() {
+  if (trustPromptShown) return;
+  trustPromptShown = true;
+
+  const manageTrust = 'Manage Workspace Trust';
+  const choice = await vscode.window.showWarningMessage(
+    'HSnips: Snippets from the workspace folders run code, they are loaded once the workspace is trusted.',
+    manageTrust
+  );
+  if (choice === manageTrust) vscode.commands.executeCommand('workbench.trust.manage');
+}
+
 /**
  * 加载snippet文件，增强错误处理和日志记录
  * @param context VS Code扩展上下文
@@ -24,73 +121,64 @@ let loadSnippetsTimeout: NodeJS.Timeout | undefined;
 async function loadSnippets(context: vscode.ExtensionContext, retryCount = 0) {
   try {
     console.log(`[HSnips] Loading snippets... (attempt ${retryCount + 1})`);
-    SNIPPETS_BY_LANGUAGE.clear();
 
-    const snippetDirInfo = getSnippetDirInfo(context);
-    if (snippetDirInfo === null) {
-      console.log('[HSnips] No snippet directory info available');
-      return;
+    // The main snippet directory is created if it doesn't exist, so the user can start adding
+    // snippets to it, the other directories are only read when they exist.
+    const mainSnippetDirPath = getSnippetDirInfo(context).path;
+    if (!existsSync(mainSnippetDirPath)) {
+      console.log(`[HSnips] Creating snippet directory: ${mainSnippetDirPath}`);
+      mkdirSync(mainSnippetDirPath, { recursive: true });
     }
 
-    const snippetDirPath = snippetDirInfo.path;
-    console.log(`[HSnips] Snippet directory: ${snippetDirPath}`);
+    const snippetDirs = getSnippetDirs(context).filter((dirInfo) => existsSync(dirInfo.path));
 
-    if (!existsSync(snippetDirPath)) {
-      console.log(`[HSnips] Creating snippet directory: ${snippetDirPath}`);
-      mkdirSync(snippetDirPath, { recursive: true });
-    }
+    // `.json` snippet files are only loaded when they are named after a language vscode knows.
+    const languageIds = await getLanguageIds();
+
+    // Files of the same language found in several directories are all loaded, in the order of
+    // precedence of their directories.
+    const snippetFiles: Map<string, IHSnippetFile[]> = new Map();
 
-    const files = readdirSync(snippetDirPath);
-    const hsnipFiles = files.filter(file => path.extname(file).toLowerCase() === '.hsnips');
+    let hasUntrustedDirs = false;
 
-    console.log(`[HSnips] Found ${hsnipFiles.length} .hsnips files: ${hsnipFiles.join(', ')}`);
+    for (let snippetDirInfo of snippetDirs) {
+      const parseOptions = getParseOptions(snippetDirInfo.type == SnippetDirType.Workspace);
+      if (!parseOptions) {
+        console.log(`[HSnips] Skipping snippet directory of an untrusted workspace: ${snippetDirInfo.path}`);
+        hasUntrustedDirs = true;
+        continue;
+      }
 
-    for (let file of hsnipFiles) {
-      try {
-        console.log(`[HSnips] Processing file: ${file}`);
-        let filePath = path.join(snippetDirPath, file);
-        let fileData = readFileSync(filePath, 'utf8');
-        let language = path.basename(file, '.hsnips').toLowerCase();
+      console.log(`[HSnips] Snippet directory: ${snippetDirInfo.path}`);
 
-        console.log(`[HSnips] Parsing snippets for language: ${language}`);
-        const snippets = parse(fileData);
-        SNIPPETS_BY_LANGUAGE.set(language, snippets);
-        console.log(`[HSnips] Successfully loaded ${snippets.length} snippets from ${file} for language: ${language}`);
-      } catch (error) {
+      readSnippetDir(snippetDirInfo.path, describeSnippetDir(snippetDirInfo), snippetFiles, (file, error) => {
         console.error(`[HSnips] Error loading snippet file ${file}:`, error);
-        
+
         // 提供更详细的错误信息
         let errorMessage = 'Unknown error';
         if (error instanceof Error) {
           errorMessage = error.message;
-          
+
           // 如果是 document 相关错误，提供特定的提示
           if (errorMessage.includes('document') || errorMessage.includes('Cannot read properties of undefined')) {
             errorMessage = `JavaScript code in snippet file contains references to undefined variables (like 'document'). Please check your global blocks and snippet code. Original error: ${errorMessage}`;
           }
         }
-        
+
         vscode.window.showErrorMessage(`Failed to load snippet file ${file}: ${errorMessage}`);
-      }
+      }, parseOptions, languageIds);
     }
 
-    let globalSnippets = SNIPPETS_BY_LANGUAGE.get('all');
-    if (globalSnippets) {
-      console.log(`[HSnips] Applying ${globalSnippets.length} global snippets to all languages`);
-      for (let [language, snippetList] of SNIPPETS_BY_LANGUAGE.entries()) {
-        if (language !== 'all') snippetList.push(...globalSnippets);
-      }
-    }
+    if (hasUntrustedDirs) promptWorkspaceTrust();
 
-    // Sort snippets by descending priority.
-    for (let snippetList of SNIPPETS_BY_LANGUAGE.values()) {
-      snippetList.sort((a, b) => b.priority - a.priority);
-    }
+    loadedSnippetFiles = snippetFiles;
+    resetProfiles();
+    updateSnippetsByLanguage();
 
     console.log(`[HSnips] Successfully loaded snippets for ${SNIPPETS_BY_LANGUAGE.size} languages`);
 
     // 设置文件系统监视器
-    setupSnippetDirWatcher(context, snippetDirPath);
+    setupSnippetDirWatchers(context, snippetDirs.map((dirInfo) => dirInfo.path), languageIds);
 
   } catch (error) {
     console.error('[HSnips] Error in loadSnippets:', error);
@@ -115,48 +203,313 @@ async function loadSnippets(context: vscode.ExtensionContext, retryCount = 0) {
   }
 }
 
+// The lowercase ids of the languages vscode knows, along with `all`, which snippet files of every
+// language are named after.
+async function getLanguageIds(): Promise<ReadonlySet<string>> {
+  const languages = await vscode.languages.getLanguages();
+  return new Set(['all', ...languages.map((language) => language.toLowerCase())]);
+}
+
 /**
- * 设置snippet目录的文件系统监视器
- * @param context VS Code扩展上下文
- * @param snippetDirPath snippet目录路径
+ * Resolves the snippets available to every language, from the loaded and registered snippet files.
  */
-function setupSnippetDirWatcher(context: vscode.ExtensionContext, snippetDirPath: string) {
-  // 清理之前的监视器
-  if (snippetDirWatcher) {
-    snippetDirWatcher.dispose();
+function updateSnippetsByLanguage() {
+  const snippetFiles: Map<string, IHSnippetFile[]> = new Map();
+  for (let [language, files] of loadedSnippetFiles) snippetFiles.set(language, [...files]);
+
+  for (let { language, snippetFile } of registeredSnippetFiles) {
+    if (!snippetFiles.has(language)) snippetFiles.set(language, []);
+    snippetFiles.get(language)!.unshift(snippetFile);
   }
 
-  try {
-    // 创建监视器，监视.hsnips文件的变化
-    const pattern = new vscode.RelativePattern(snippetDirPath, '*.hsnips');
-    snippetDirWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-
-    // 文件创建事件
-    snippetDirWatcher.onDidCreate((uri) => {
-      console.log(`[HSnips] New snippet file created: ${uri.fsPath}`);
-      vscode.window.showInformationMessage(`HSnips: New snippet file detected - ${path.basename(uri.fsPath)}`);
-      loadSnippets(context);
-    });
+  snippetFilesByLanguage = snippetFiles;
+  languageRules = getLanguageRules(snippetFiles);
 
-    // 文件删除事件
-    snippetDirWatcher.onDidDelete((uri) => {
-      console.log(`[HSnips] Snippet file deleted: ${uri.fsPath}`);
-      vscode.window.showInformationMessage(`HSnips: Snippet file removed - ${path.basename(uri.fsPath)}`);
-      loadSnippets(context);
-    });
+  // Languages without snippet files have snippets when they're mapped to other languages.
+  let languages = new Set(snippetFiles.keys());
+  for (let rule of languageRules) {
+    if (!isGlobPattern(rule.pattern)) languages.add(rule.pattern.toLowerCase());
+  }
 
-    // 文件修改事件
-    snippetDirWatcher.onDidChange((uri) => {
-      console.log(`[HSnips] Snippet file changed: ${uri.fsPath}`);
-      loadSnippets(context);
+  embeddableLanguages = new Set([...languages].filter((language) => language != 'all'));
+
+  SNIPPETS_BY_LANGUAGES.clear();
+  SNIPPETS_BY_LANGUAGE.clear();
+  for (let language of languages) {
+    let snippets = getSnippetsForLanguage(language);
+    // The triggers are indexed now rather than on the first keystroke.
+    getSnippetIndex(snippets);
+    SNIPPETS_BY_LANGUAGE.set(language, snippets);
+  }
+}
+
+async function importUltiSnips(context: vscode.ExtensionContext) {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: true,
+    filters: { UltiSnips: ['snippets'] },
+    openLabel: 'Import',
+  });
+  if (!uris || uris.length === 0) return;
+
+  const conversions: Map<string, string[]> = new Map();
+  let warningCount = 0;
+
+  for (let uri of uris) {
+    const conversion = convertUltiSnips(readFileSync(uri.fsPath, 'utf8'));
+    reportConversionWarnings(uri.fsPath, conversion.warnings);
+    warningCount += conversion.warnings.length;
+
+    const language = getUltiSnipsLanguage(uri.fsPath);
+    if (!conversions.has(language)) conversions.set(language, []);
+    conversions.get(language)!.push(`# Imported from ${uri.fsPath}\n${conversion.content}`);
+  }
+
+  const snippetDirPath = getSnippetDirInfo(context).path;
+  mkdirSync(snippetDirPath, { recursive: true });
+
+  let importedCount = 0;
+  for (let [language, contents] of conversions) {
+    const targetPath = path.join(snippetDirPath, `${language}.hsnips`);
+
+    if (existsSync(targetPath)) {
+      const answer = await vscode.window.showWarningMessage(
+        `${language}.hsnips already exists in the snippet directory.`,
+        { modal: true },
+        'Overwrite'
+      );
+      if (answer !== 'Overwrite') continue;
+    }
+
+    writeFileSync(targetPath, contents.join('\n\n'));
+    importedCount++;
+  }
+
+  if (warningCount > 0) {
+    getOutputChannel().show(true);
+    vscode.window.showWarningMessage(
+      `HSnips: Imported ${importedCount} snippet files, ${warningCount} constructs could not be translated, see the HyperSnips output for details.`
+    );
+  } else {
+    vscode.window.showInformationMessage(`HSnips: Imported ${importedCount} snippet files.`);
+  }
+
+  loadSnippets(context);
+}
+
+/**
+ * Exports the static snippets of an hsnips file chosen by the user to a vscode JSON snippet file.
+ */
+async function exportToJson(context: vscode.ExtensionContext) {
+  const items = getSnippetDirs(context)
+    .filter((dirInfo) => existsSync(dirInfo.path))
+    .flatMap((dirInfo) => {
+      const parseOptions = getParseOptions(dirInfo.type == SnippetDirType.Workspace);
+      if (!parseOptions) return [];
+
+      return readdirSync(dirInfo.path)
+        .filter((file) => path.extname(file).toLowerCase() === '.hsnips')
+        .map((file) => ({
+          label: file,
+          description: describeSnippetDir(dirInfo),
+          filePath: path.join(dirInfo.path, file),
+          parseOptions,
+        }));
     });
 
-    // 将监视器添加到订阅列表中，确保扩展卸载时清理
-    context.subscriptions.push(snippetDirWatcher);
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('No .hsnips files found in the snippet directories.');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Snippet file to export' });
+  if (!selected) return;
 
-    console.log(`[HSnips] File system watcher set up for: ${snippetDirPath}`);
+  const language = path.basename(selected.filePath, '.hsnips').toLowerCase();
+  let exported;
+  try {
+    const content = readFileSync(selected.filePath, 'utf8');
+    const snippetFile = parseFile(content, selected.filePath, selected.parseOptions);
+    exported = exportJsonSnippets(snippetFile.snippets, language);
+  } catch (error) {
+    vscode.window.showErrorMessage(`HSnips: Failed to export ${selected.label}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(path.dirname(selected.filePath), `${language}.code-snippets`)),
+    filters: { 'VS Code Snippets': ['code-snippets', 'json'] },
+  });
+  if (!targetUri) return;
+
+  writeFileSync(targetUri.fsPath, exported.content);
+
+  for (let skipped of exported.skipped) {
+    getOutputChannel().appendLine(`${selected.filePath}: Not exported: ${skipped}`);
+  }
+
+  if (exported.skipped.length > 0) {
+    getOutputChannel().show(true);
+    vscode.window.showWarningMessage(
+      `HSnips: ${exported.skipped.length} snippets could not be exported, see the HyperSnips output for details.`
+    );
+  } else {
+    vscode.window.showInformationMessage(`HSnips: Exported snippets to ${path.basename(targetUri.fsPath)}.`);
+  }
+}
+
+/**
+ * Lists the snippets which took the most time to run, opening the one chosen by the user.
+ */
+async function showSlowestSnippets() {
+  const items = getSlowestSnippets(50).map(({ snippet, stages, total }) => ({
+    label: snippet.trigger || String(snippet.regexp),
+    description: `${total.toFixed(1)} ms${isSnippetDisabled(snippet) ? ' · disabled' : ''}`,
+    detail: stages
+      .map((timing, stage) => ({ timing, name: PROFILE_STAGE_NAMES[stage] }))
+      .filter(({ timing }) => timing.runs > 0)
+      .map(({ timing, name }) =>
+        `${name}: ${timing.total.toFixed(1)} ms in ${timing.runs} runs, max ${timing.max.toFixed(1)} ms`
+      )
+      .join(' · '),
+    snippet,
+  }));
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('HSnips: No snippet has run yet.');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Slowest snippets, since they were loaded',
+    matchOnDetail: true,
+  });
+  if (!selected || !selected.snippet.filePath) return;
+
+  const document = await vscode.workspace.openTextDocument(selected.snippet.filePath);
+  const line = Math.max(selected.snippet.line - 1, 0);
+  await vscode.window.showTextDocument(document, {
+    selection: new vscode.Range(line, 0, line, 0),
+  });
+}
+
+/**
+ * Lists the triggers shared by several snippets of a language in the output channel.
+ */
+function showSnippetConflicts() {
+  const conflicts = findConflicts(SNIPPETS_BY_LANGUAGE);
+  if (conflicts.length === 0) {
+    vscode.window.showInformationMessage('HSnips: No snippets share a trigger.');
+    return;
+  }
+
+  const outputChannel = getOutputChannel();
+  outputChannel.appendLine(`[${new Date().toLocaleTimeString()}] Snippets sharing a trigger`);
+  conflicts.forEach((conflict) => outputChannel.appendLine(formatConflict(conflict)));
+  outputChannel.show(true);
+
+  const shadowed = conflicts.filter((conflict) => conflict.shadowed.length > 0).length;
+  vscode.window.showInformationMessage(
+    `HSnips: ${conflicts.length} triggers are shared, ${shadowed} of them hide snippets with a ` +
+      'lower priority.'
+  );
+}
+
+/**
+ * Runs the tests of the hsnips file in the active editor, reporting them in the output channel.
+ */
+async function runSnippetTestsCommand(context: vscode.ExtensionContext) {
+  const document = vscode.window.activeTextEditor && vscode.window.activeTextEditor.document;
+  if (!document || document.languageId !== 'hsnips') {
+    vscode.window.showInformationMessage('HSnips: Open an .hsnips file to run its tests.');
+    return;
+  }
+
+  const parseOptions = getDocumentParseOptions(context, document);
+  if (!parseOptions) {
+    promptWorkspaceTrust();
+    return;
+  }
+
+  let results;
+  try {
+    results = await runSnippetFileTests(document.fileName, document.getText(), parseOptions);
   } catch (error) {
-    console.error('[HSnips] Failed to setup file system watcher:', error);
+    const message = error instanceof Error ? error.message : error;
+    vscode.window.showErrorMessage(`HSnips: Failed to run the tests: ${message}`);
+    return;
+  }
+
+  const failed = results.filter((result) => !result.passed).length;
+  const outputChannel = getOutputChannel();
+  outputChannel.appendLine(`[${new Date().toLocaleTimeString()}] Tests of ${document.fileName}`);
+  results.forEach((result) => outputChannel.appendLine(formatTestResult(result)));
+  outputChannel.show(true);
+
+  if (results.length === 0) {
+    vscode.window.showInformationMessage('HSnips: The file has no tests.');
+  } else if (failed > 0) {
+    vscode.window.showWarningMessage(`HSnips: ${failed} of ${results.length} tests failed.`);
+  } else {
+    vscode.window.showInformationMessage(`HSnips: All ${results.length} tests passed.`);
+  }
+}
+
+/**
+ * 清理之前的监视器
+ */
+function disposeSnippetDirWatchers() {
+  while (snippetDirWatchers.length) (snippetDirWatchers.pop() as vscode.FileSystemWatcher).dispose();
+}
+
+/**
+ * 设置snippet目录的文件系统监视器
+ * @param context VS Code扩展上下文
+ * @param snippetDirPaths snippet目录路径
+ */
+function setupSnippetDirWatchers(
+  context: vscode.ExtensionContext,
+  snippetDirPaths: string[],
+  languageIds: ReadonlySet<string>
+) {
+  disposeSnippetDirWatchers();
+
+  const jsonFiles = [...languageIds].filter((id) => /^[\w.-]+$/.test(id)).map((id) => `${id}.json`);
+  const glob = `{${['*.hsnips', '*.snippets', '*.code-snippets', ...jsonFiles].join(',')}}`;
+
+  for (let snippetDirPath of snippetDirPaths) {
+    try {
+      // 创建监视器，监视.hsnips文件的变化
+      const pattern = new vscode.RelativePattern(snippetDirPath, glob);
+      const snippetDirWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+      // 文件创建事件
+      snippetDirWatcher.onDidCreate((uri) => {
+        console.log(`[HSnips] New snippet file created: ${uri.fsPath}`);
+        vscode.window.showInformationMessage(`HSnips: New snippet file detected - ${path.basename(uri.fsPath)}`);
+        loadSnippets(context);
+      });
+
+      // 文件删除事件
+      snippetDirWatcher.onDidDelete((uri) => {
+        console.log(`[HSnips] Snippet file deleted: ${uri.fsPath}`);
+        vscode.window.showInformationMessage(`HSnips: Snippet file removed - ${path.basename(uri.fsPath)}`);
+        loadSnippets(context);
+      });
+
+      // 文件修改事件
+      snippetDirWatcher.onDidChange((uri) => {
+        console.log(`[HSnips] Snippet file changed: ${uri.fsPath}`);
+        loadSnippets(context);
+      });
+
+      // 将监视器添加到订阅列表中，确保扩展卸载时清理
+      snippetDirWatchers.push(snippetDirWatcher);
+      context.subscriptions.push(snippetDirWatcher);
+
+      console.log(`[HSnips] File system watcher set up for: ${snippetDirPath}`);
+    } catch (error) {
+      console.error('[HSnips] Failed to setup file system watcher:', error);
+    }
   }
 }
 
@@ -164,10 +517,8 @@ function setupSnippetDirWatcher(context: vscode.ExtensionContext, snippetDirPath
  * 清理资源
  */
 function cleanup() {
-  if (snippetDirWatcher) {
-    snippetDirWatcher.dispose();
-    snippetDirWatcher = undefined;
-  }
+  disposeSnippetDirWatchers();
+  disposePreviewDecoration();
 
   if (loadSnippetsTimeout) {
     clearTimeout(loadSnippetsTimeout);
@@ -175,14 +526,203 @@ function cleanup() {
   }
 }
 
+function getSnippetsForLanguages(languages: string[]) {
+  let key = languages.join(',');
+  let snippets = SNIPPETS_BY_LANGUAGES.get(key);
+  if (!snippets) {
+    snippets = resolveSnippets(languages, snippetFilesByLanguage);
+    SNIPPETS_BY_LANGUAGES.set(key, snippets);
+  }
+  return snippets;
+}
+
+function getSnippetsForLanguage(language: string) {
+  return getSnippetsForLanguages(getDocumentLanguages(language, languageRules, () => false));
+}
+
+/**
+ * Gets the snippets of the language of a document, and of the language embedded at `position`,
+ * along with the languages they're mapped to and the ones mapped to the path of the document.
+ */
+function getSnippetsForDocument(document: vscode.TextDocument, position?: vscode.Position) {
+  let matchesPath = (pattern: string) => vscode.languages.match({ pattern }, document) > 0;
+  let languages = getDocumentLanguages(document.languageId, languageRules, matchesPath);
+
+  // The scopes are only looked up when the language embedded at the cursor could bring snippets of
+  // another language, context filters look them up themselves when they run.
+  if (position && [...embeddableLanguages].some((language) => !languages.includes(language))) {
+    let embeddedLanguage = getScopeLanguage(getSnippetContext(document, position).scopes);
+    if (embeddedLanguage) {
+      languages = getDocumentLanguages(
+        document.languageId,
+        languageRules,
+        matchesPath,
+        embeddedLanguage
+      );
+    }
+  }
+
+  return getSnippetsForLanguages(languages);
+}
+
+// Enables the keybindings moving through the placeholders of a restored snippet, which vscode
+// doesn't know about.
+function updateRestoredSnippetContext() {
+  let editor = vscode.window.activeTextEditor;
+  let session = editor && SNIPPET_STACK.of(editor.document)[0];
+  let restored = !!session && session.restored;
+  vscode.commands.executeCommand('setContext', 'hsnips.inRestoredSnippet', restored);
+}
+
+// Selects the placeholders of a restored session, which vscode doesn't know about.
+function selectPlaceholder(session: SnippetSession) {
+  let selections = session
+    .getPlaceholderRanges()
+    .map((range) => new vscode.Selection(range.start, range.end));
+  session.editor.selections = selections;
+  session.editor.revealRange(selections[0]);
+}
+
+function updateVisibleSessions(editors: readonly vscode.TextEditor[]) {
+  SNIPPET_STACK.updateVisibleEditors(editors, getHost().getSetting<number>('sessionLifetime') || 0);
+  updateRestoredSnippetContext();
+}
+
+// Finds a snippet by its trigger, plain triggers are preferred over regex triggers, whose match
+// groups are returned along with the snippet, or by its description.
+function findSnippet(snippets: HSnippet[], options: IExpandSnippetOptions) {
+  const trigger = options.trigger;
+
+  if (trigger) {
+    let snippet = snippets.find((s) => s.trigger === trigger);
+    if (snippet) return { snippet, groups: [] as string[] };
+
+    for (let regexSnippet of snippets.filter((s) => s.regexp)) {
+      let match = (regexSnippet.regexp as RegExp).exec(trigger);
+      if (match) return { snippet: regexSnippet, groups: Array.from(match) };
+    }
+  } else if (options.description) {
+    let snippet = snippets.find((s) => s.description === options.description);
+    if (snippet) return { snippet, groups: [] as string[] };
+  }
+}
+
+async function expandSnippetWithOptions(options: IExpandSnippetOptions) {
+  let editor = vscode.window.activeTextEditor;
+  if (!editor) return false;
+
+  let snippets = options.language
+    ? getSnippetsForLanguage(options.language)
+    : getSnippetsForDocument(editor.document, editor.selection.active);
+  let found = snippets && findSnippet(snippets, options);
+  if (!found) return false;
+
+  let visual = getVisualText(editor);
+  let label = options.trigger || '';
+  let groups = options.args || found.groups;
+  let completion = new CompletionInfo(found.snippet, label, editor.selection, groups);
+  await expandSnippet(completion, editor, false, visual);
+  return true;
+}
+
+async function expandSnippetCommand(options?: IExpandSnippetOptions) {
+  if (!options || !(options.trigger || options.description)) {
+    vscode.window.showWarningMessage(
+      'HSnips: A trigger or a description is needed to expand a snippet.'
+    );
+    return;
+  }
+
+  if (!(await expandSnippetWithOptions(options))) {
+    let name = options.trigger || options.description;
+    vscode.window.showWarningMessage(`HSnips: No snippet found for ${name}.`);
+  }
+}
+
+function registerSnippets(language: string, content: string) {
+  let registration = { language: language.toLowerCase(), snippetFile: parseFile(content) };
+  registration.snippetFile.snippets.forEach((s) => (s.origin = 'registered through the API'));
+
+  registeredSnippetFiles.push(registration);
+  updateSnippetsByLanguage();
+
+  return new vscode.Disposable(() => {
+    registeredSnippetFiles = registeredSnippetFiles.filter((r) => r !== registration);
+    updateSnippetsByLanguage();
+  });
+}
+
+function toCompletionItem(completion: CompletionInfo) {
+  let completionItem = new vscode.CompletionItem(completion.label);
+  completionItem.range = completion.range;
+  completionItem.detail = completion.snippet.description;
+  if (completion.snippet.filePath) {
+    let origin = completion.snippet.origin ? ` (${completion.snippet.origin})` : '';
+    completionItem.documentation = `Defined in ${completion.snippet.filePath}${origin}`;
+  }
+  completionItem.insertText = completion.label;
+  completionItem.command = {
+    command: 'hsnips.expand',
+    title: 'expand',
+    arguments: [completion],
+  };
+
+  return completionItem;
+}
+
+// The selected text, without the indentation of the line where the selection starts, which is
+// added back by vscode when the snippet is inserted.
+function getVisualText(editor: vscode.TextEditor) {
+  let document = editor.document;
+  let line = document.lineAt(editor.selection.start.line);
+  let indent = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+
+  return document
+    .getText(editor.selection)
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((l, i) => (i > 0 && l.startsWith(indent) ? l.substring(indent.length) : l))
+    .join('\n');
+}
+
+// Expands a snippet at several cursors, replacing every trigger at once so vscode keeps a single
+// snippet session with a cursor in each instance. Returns the instances, or undefined when they
+// can't be inserted together.
+async function expandSnippetAtCursors(
+  editor: vscode.TextEditor,
+  expansions: ICursorExpansion[],
+  undoStopBefore: boolean
+) {
+  let created = createCursorInstances(editor, expansions);
+  if (!created) return undefined;
+  let { instances, deferBlocks } = created;
+
+  // Replacing the triggers in the same edit, unlike a single expansion, since vscode only keeps the
+  // cursors together when the snippet is inserted at all of them.
+  let ranges = expansions.map((e) => e.range);
+  await editor.insertSnippet(instances[0].snippetString, ranges, {
+    undoStopAfter: false,
+    undoStopBefore,
+  });
+
+  let session = new SnippetSession(editor, instances);
+  SNIPPET_STACK.push(session);
+  if (deferBlocks) await session.fillBlocks();
+
+  return instances;
+}
+
 // This function may be called after a snippet expansion, in which case the original text was
 // replaced by the snippet label, or it may be called directly, as in the case of an automatic
 // expansion. Depending on which case it is, we have to delete a different editor range before
-// triggering the real hsnip expansion.
+// triggering the real hsnip expansion. The snippet is also expanded at the other `cursors` where
+// its whole trigger is before the cursor.
 export async function expandSnippet(
   completion: CompletionInfo,
   editor: vscode.TextEditor,
-  snippetExpansion = false
+  snippetExpansion = false,
+  visual = '',
+  cursors: vscode.Position[] = []
 ) {
   // 验证 editor 和 document 的有效性
   if (!editor) {
@@ -196,40 +736,83 @@ export async function expandSnippet(
     return;
   }
 
-  let snippetInstance = new HSnippetInstance(
-    completion.snippet,
-    editor,
-    completion.range.start,
-    completion.groups
-  );
+  let triggerRange = snippetExpansion ? completion.completionRange : completion.range;
 
-  let insertionRange: vscode.Range | vscode.Position = completion.range.start;
+  // A pre_expand hook may move the triggers, and the selected text only belongs to one cursor, so
+  // these snippets are only expanded at the primary cursor.
+  let expansions = [{ completion, range: triggerRange }];
+  if (!completion.snippet.hooks.preExpand && !visual) {
+    let document = editor.document;
+    let getSnippets = (position: vscode.Position) => getSnippetsForDocument(document, position);
+    expansions = findCursorExpansions(document, expansions[0], cursors, getSnippets);
+  }
 
-  // The separate deletion is a workaround for a VsCodeVim bug, where when we trigger a snippet which
-  // has a replacement range, it will go into NORMAL mode, see issues #28 and #36.
+  if (expansions.length > 1) {
+    insertingSnippet = true;
+    let instances = await expandSnippetAtCursors(editor, expansions, !snippetExpansion).finally(
+      () => (insertingSnippet = false)
+    );
 
-  // TODO: Go back to inserting the snippet and removing in a single command once the VsCodeVim bug
-  // is fixed.
+    if (instances) {
+      for (let instance of instances) await runPostExpandHook(instance);
+      return;
+    }
+  }
 
+  // The pre_expand hook may edit the document, which shouldn't trigger other snippets.
   insertingSnippet = true;
-  await editor.edit(
-    (eb) => {
-      eb.delete(snippetExpansion ? completion.completionRange : completion.range);
-    },
-    { undoStopAfter: false, undoStopBefore: !snippetExpansion }
-  );
+  let snippetInstance: HSnippetInstance;
+  try {
+    triggerRange = await runPreExpandHook(
+      completion.snippet,
+      editor,
+      triggerRange,
+      completion.label,
+      completion.groups,
+      visual
+    );
+
+    snippetInstance = new HSnippetInstance(
+      completion.snippet,
+      editor,
+      triggerRange.start,
+      completion.groups,
+      getExpansionContext(editor, triggerRange, completion.label, visual)
+    );
+
+    let insertionRange: vscode.Range | vscode.Position = triggerRange.start;
+
+    // The separate deletion is a workaround for a VsCodeVim bug, where when we trigger a snippet
+    // which has a replacement range, it will go into NORMAL mode, see issues #28 and #36.
+
+    // TODO: Go back to inserting the snippet and removing in a single command once the VsCodeVim
+    // bug is fixed.
+
+    await editor.edit(
+      (eb) => {
+        eb.delete(triggerRange);
+      },
+      { undoStopAfter: false, undoStopBefore: !snippetExpansion }
+    );
 
-  await editor.insertSnippet(snippetInstance.snippetString, insertionRange, {
-    undoStopAfter: false,
-    undoStopBefore: false,
-  });
+    await editor.insertSnippet(snippetInstance.snippetString, insertionRange, {
+      undoStopAfter: false,
+      undoStopBefore: false,
+    });
 
-  if (snippetInstance.selectedPlaceholder != 0) SNIPPET_STACK.unshift(snippetInstance);
-  insertingSnippet = false;
+    SNIPPET_STACK.push(new SnippetSession(editor, [snippetInstance]));
+  } finally {
+    insertingSnippet = false;
+  }
+
+  await runPostExpandHook(snippetInstance);
 }
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): IHSnipsApi {
   console.log('[HSnips] Activating HyperSnips extension...');
+  setHost(vscodeHost);
+  context.subscriptions.push(getOutputChannel());
+  context.subscriptions.push(getDiagnosticCollection());
 
   // 激活依赖扩展
   const hscopesExtension = vscode.extensions.getExtension('draivin.hscopes');
@@ -265,15 +848,16 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration('hsnips.hsnipsPath') ||
-        event.affectsConfiguration('hsnips.multiLineContext')) {
+        event.affectsConfiguration('hsnips.additionalPaths') ||
+        event.affectsConfiguration('hsnips.multiLineContext') ||
+        event.affectsConfiguration('hsnips.sandbox') ||
+        event.affectsConfiguration('hsnips.timeBudget') ||
+        event.affectsConfiguration('hsnips.languageMap')) {
         console.log('[HSnips] Configuration changed, reloading snippets...');
         vscode.window.showInformationMessage('HSnips: Configuration changed, reloading snippets...');
 
         // 清理现有监视器
-        if (snippetDirWatcher) {
-          snippetDirWatcher.dispose();
-          snippetDirWatcher = undefined;
-        }
+        disposeSnippetDirWatchers();
 
         // 重新加载snippets
         loadSnippets(context);
@@ -281,6 +865,13 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      console.log('[HSnips] Workspace folders changed, reloading snippets...');
+      loadSnippets(context);
+    })
+  );
+
   // 注册命令
   context.subscriptions.push(
     vscode.commands.registerCommand('hsnips.openSnippetsDir', () => {
@@ -325,28 +916,61 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.importUltiSnips', () => importUltiSnips(context))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.exportToJson', () => exportToJson(context))
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.runSnippetTests', () => runSnippetTestsCommand(context))
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.showSlowestSnippets', showSlowestSnippets)
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.showSnippetConflicts', showSnippetConflicts)
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('hsnips.leaveSnippet', () => {
-      while (SNIPPET_STACK.length) SNIPPET_STACK.pop();
+      let editor = vscode.window.activeTextEditor;
+      if (editor) SNIPPET_STACK.leave(editor.document);
+      updateRestoredSnippetContext();
       vscode.commands.executeCommand('leaveSnippet');
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('hsnips.nextPlaceholder', () => {
-      if (SNIPPET_STACK[0] && !SNIPPET_STACK[0].nextPlaceholder()) {
-        SNIPPET_STACK.shift();
+    vscode.commands.registerCommand('hsnips.nextPlaceholder', async () => {
+      // Once a snippet expanded in a placeholder of another is done, vscode goes back to the
+      // placeholders of the outer one, which is next in the stack.
+      let editor = vscode.window.activeTextEditor;
+      let session = editor && SNIPPET_STACK.jump(editor.document, 1);
+      updateRestoredSnippetContext();
+
+      if (session && session.restored) selectPlaceholder(session);
+      else await vscode.commands.executeCommand('jumpToNextSnippetPlaceholder');
+      for (let instance of session ? session.instances : []) {
+        await runPostJumpHook(instance, 1);
       }
-      vscode.commands.executeCommand('jumpToNextSnippetPlaceholder');
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('hsnips.prevPlaceholder', () => {
-      if (SNIPPET_STACK[0] && !SNIPPET_STACK[0].prevPlaceholder()) {
-        SNIPPET_STACK.shift();
+    vscode.commands.registerCommand('hsnips.prevPlaceholder', async () => {
+      // Once a snippet expanded in a placeholder of another is done, vscode goes back to the
+      // placeholders of the outer one, which is next in the stack.
+      let editor = vscode.window.activeTextEditor;
+      let session = editor && SNIPPET_STACK.jump(editor.document, -1);
+      updateRestoredSnippetContext();
+
+      if (session && session.restored) selectPlaceholder(session);
+      else await vscode.commands.executeCommand('jumpToPrevSnippetPlaceholder');
+      for (let instance of session ? session.instances : []) {
+        await runPostJumpHook(instance, -1);
       }
-      vscode.commands.executeCommand('jumpToPrevSnippetPlaceholder');
     })
   );
 
@@ -355,26 +979,97 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.onDidSaveTextDocument((document) => {
       if (document.languageId === 'hsnips') {
         console.log(`[HSnips] Snippet file saved: ${document.fileName}`);
+        const parseOptions = getDocumentParseOptions(context, document);
+        if (parseOptions) updateDiagnostics(document, parseOptions);
         loadSnippets(context);
       }
     })
   );
 
+  // Workspace trust was added in vscode 1.56.
+  if (vscode.workspace.onDidGrantWorkspaceTrust) {
+    context.subscriptions.push(
+      vscode.workspace.onDidGrantWorkspaceTrust(() => {
+        console.log('[HSnips] Workspace trusted, reloading snippets');
+        loadSnippets(context);
+      })
+    );
+  }
+
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      if (document.languageId === 'hsnips') clearDiagnostics(document);
+      discardSuspendedSessions(document);
+    })
+  );
+
   // 注册扩展命令
   context.subscriptions.push(
     vscode.commands.registerTextEditorCommand(
       'hsnips.expand',
-      (editor, _, completion: CompletionInfo) => {
-        expandSnippet(completion, editor, true);
+      async (editor, _, completion: CompletionInfo) => {
+        // The label of the completion is inserted at every cursor where it was typed.
+        let cursors = editor.selections.filter((s) => s.isEmpty).map((s) => s.active);
+        await expandSnippet(completion, editor, true, '', cursors);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerTextEditorCommand('hsnips.insertSnippet', async (editor) => {
+      let snippets = getSnippetsForDocument(editor.document, editor.selection.active);
+      if (!snippets || snippets.length === 0) {
+        vscode.window.showInformationMessage('HSnips: No snippets available for this language.');
+        return;
+      }
+
+      let snippet = await pickSnippet(editor, snippets);
+      if (!snippet) return;
+
+      // The snippet replaces the selection, regex snippets are expanded without match groups.
+      let completion = new CompletionInfo(snippet, '', editor.selection, []);
+      await expandSnippet(completion, editor);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerTextEditorCommand(
+      'hsnips.wrapSelection',
+      async (editor, _, args?: IExpandSnippetOptions) => {
+        // A keybinding may name the snippet to wrap the selection with.
+        if (args && (args.trigger || args.description)) {
+          await expandSnippetCommand(args);
+          return;
+        }
+
+        let snippets = getSnippetsForDocument(editor.document, editor.selection.active);
+        if (!snippets || snippets.length === 0) {
+          vscode.window.showInformationMessage('HSnips: No snippets available for this language.');
+          return;
+        }
+
+        let visual = getVisualText(editor);
+        let snippet = await pickSnippet(editor, snippets, visual);
+        if (!snippet) return;
+
+        let completion = new CompletionInfo(snippet, '', editor.selection, []);
+        await expandSnippet(completion, editor, false, visual);
       }
     )
   );
 
   // 文档内容变化监听器
   context.subscriptions.push(
-    vscode.workspace.onDidChangeTextDocument((e) => {
-      if (SNIPPET_STACK.length && SNIPPET_STACK[0].editor.document === e.document) {
-        SNIPPET_STACK[0].update(e.contentChanges);
+    vscode.workspace.onDidChangeTextDocument(async (e) => {
+      // A snippet expanded in a placeholder of another edits that placeholder, so every snippet of
+      // the document follows the changes. vscode only tells why a change was made since 1.63.
+      trackSuspendedSessions(e.document, e.contentChanges);
+      SNIPPET_STACK.trackChanges(e.document, e.contentChanges, !!e.reason).catch((error) =>
+        console.error('[HSnips] Error updating the code blocks of snippets:', error)
+      );
+      if (e.reason) {
+        updateRestoredSnippetContext();
+        return;
       }
 
       if (insertingSnippet) return;
@@ -388,22 +1083,25 @@ export function activate(context: vscode.ExtensionContext) {
       // 只处理单字符输入事件
       if (mainChange.text.length !== 1) return;
 
-      let snippets = SNIPPETS_BY_LANGUAGE.get(e.document.languageId.toLowerCase());
-      if (!snippets) snippets = SNIPPETS_BY_LANGUAGE.get('all');
-      if (!snippets) return;
-
-      let mainChangePosition = mainChange.range.start.translate(0, mainChange.text.length);
-      let completions = getCompletions(e.document, mainChangePosition, snippets);
-
-      // 自动完成匹配时展开snippet
-      if (completions && !Array.isArray(completions)) {
-        let editor = vscode.window.activeTextEditor;
-        if (editor && editor.document && e.document === editor.document) {
-          try {
-            expandSnippet(completions, editor);
-          } catch (error) {
-            console.error('[HSnips] Error during automatic snippet expansion:', error);
-            vscode.window.showErrorMessage(`HSnips: Failed to expand snippet - ${error}`);
+      // With several cursors the snippet is expanded at the first one where an automatic snippet
+      // matches, and at the others where the same snippet matches.
+      let positions = getTypedPositions(e.contentChanges);
+      for (let position of positions) {
+        let snippets = getSnippetsForDocument(e.document, position);
+        if (!snippets) continue;
+
+        let completions = getCompletions(e.document, position, snippets);
+
+        // 自动完成匹配时展开snippet
+        if (completions && !Array.isArray(completions)) {
+          let editor = vscode.window.activeTextEditor;
+          if (editor && editor.document && e.document === editor.document) {
+            try {
+              await expandSnippet(completions, editor, false, '', positions);
+            } catch (error) {
+              console.error('[HSnips] Error during automatic snippet expansion:', error);
+              vscode.window.showErrorMessage(`HSnips: Failed to expand snippet - ${error}`);
+            }
           }
           return;
         }
@@ -413,19 +1111,18 @@ export function activate(context: vscode.ExtensionContext) {
 
   // 清理过期的snippet实例
   context.subscriptions.push(
-    vscode.window.onDidChangeVisibleTextEditors(() => {
-      while (SNIPPET_STACK.length) SNIPPET_STACK.pop();
-    })
+    vscode.window.onDidChangeVisibleTextEditors(updateVisibleSessions)
+  );
+
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor(updateRestoredSnippetContext)
   );
 
   context.subscriptions.push(
     vscode.window.onDidChangeTextEditorSelection((e) => {
-      while (SNIPPET_STACK.length) {
-        if (e.selections.some((s) => SNIPPET_STACK[0].range.contains(s))) {
-          break;
-        }
-        SNIPPET_STACK.shift();
-      }
+      // Leaving a nested snippet keeps the snippets containing the selection.
+      SNIPPET_STACK.leaveUnselected(e.textEditor.document, e.selections);
+      updateRestoredSnippetContext();
     })
   );
 
@@ -435,13 +1132,12 @@ export function activate(context: vscode.ExtensionContext) {
       [{ pattern: '**' }],
       {
         provideCompletionItems(document: vscode.TextDocument, position: vscode.Position) {
-          let snippets = SNIPPETS_BY_LANGUAGE.get(document.languageId.toLowerCase());
-          if (!snippets) snippets = SNIPPETS_BY_LANGUAGE.get('all');
+          let snippets = getSnippetsForDocument(document, position);
           if (!snippets) return;
 
           let completions = getCompletions(document, position, snippets);
           if (completions && Array.isArray(completions)) {
-            return completions.map((c) => c.toCompletionItem());
+            return completions.map(toCompletionItem);
           }
         },
       },
@@ -449,7 +1145,20 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('hsnips.expandSnippet', expandSnippetCommand)
+  );
+
   console.log('[HSnips] HyperSnips extension activated successfully');
+
+  const api: IHSnipsApi = {
+    expandSnippet: expandSnippetWithOptions,
+    getSnippets: (language) => [...(getSnippetsForLanguage(language) || [])],
+    getLanguages: () => [...SNIPPETS_BY_LANGUAGE.keys()],
+    registerSnippets,
+  };
+
+  return api;
 }
 
 /**
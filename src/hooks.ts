@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { HSnippet, ISnippetHooks, HOOK_DIRECTIVES } from './hsnippet';
+import { HSnippetInstance } from './hsnippetInstance';
+import { getOutputChannel } from './utils';
+
+export interface ITabstop {
+  id: number;
+  range: vscode.Range;
+  text: string;
+}
+
+// The `snip` variable available to the `pre_expand`, `post_expand` and `post_jump` hooks.
+export interface ISnippetHookContext {
+  editor: vscode.TextEditor;
+  document: vscode.TextDocument;
+  // The range of the trigger for `pre_expand`, and the range of the snippet for the other hooks.
+  range: vscode.Range;
+  trigger: string;
+  matchGroups: string[];
+  visual: string;
+  // The tab stops of the expanded snippet, empty for `pre_expand`.
+  tabstops: ITabstop[];
+  // The tab stop jumped to and the direction of the jump, 1 or -1, for `post_jump`.
+  tabstop?: number;
+  direction?: number;
+}
+
+async function runHook(
+  snippet: HSnippet,
+  name: keyof ISnippetHooks,
+  context: ISnippetHookContext
+) {
+  let hook = snippet.hooks[name];
+  if (!hook) return;
+
+  try {
+    await hook(context);
+  } catch (error) {
+    let message = error instanceof Error ? error.message : String(error);
+    let location = snippet.filePath ? ` (${snippet.filePath}:${snippet.line})` : '';
+    let directive = [...HOOK_DIRECTIVES].find(([, key]) => key == name)![0];
+    getOutputChannel().appendLine(
+      `[${new Date().toLocaleTimeString()}] ${directive} of snippet "${
+        snippet.description || snippet.trigger
+      }"${location} threw: ${message}`
+    );
+  }
+}
+
+function getInstanceContext(instance: HSnippetInstance): ISnippetHookContext {
+  return {
+    editor: instance.editor,
+    document: instance.editor.document,
+    range: instance.range.range,
+    trigger: instance.expansion.trigger || '',
+    matchGroups: instance.matchGroups,
+    visual: instance.expansion.visual || '',
+    tabstops: instance.getTabstops(),
+  };
+}
+
+// Runs the `pre_expand` hook of a snippet, which may edit the document, in which case the trigger is
+// assumed to be at the same distance from the end of the document, as when the hook adds an import
+// at the top of the file. Returns the range of the trigger after the hook.
+export async function runPreExpandHook(
+  snippet: HSnippet,
+  editor: vscode.TextEditor,
+  range: vscode.Range,
+  trigger: string,
+  matchGroups: string[],
+  visual: string
+): Promise<vscode.Range> {
+  if (!snippet.hooks.preExpand) return range;
+
+  let document = editor.document;
+  let version = document.version;
+  let length = document.getText().length;
+  let startFromEnd = length - document.offsetAt(range.start);
+  let endFromEnd = length - document.offsetAt(range.end);
+
+  await runHook(snippet, 'preExpand', {
+    editor,
+    document,
+    range,
+    trigger,
+    matchGroups,
+    visual,
+    tabstops: [],
+  });
+
+  if (document.version == version) return range;
+
+  length = document.getText().length;
+  return new vscode.Range(
+    document.positionAt(length - startFromEnd),
+    document.positionAt(length - endFromEnd)
+  );
+}
+
+export async function runPostExpandHook(instance: HSnippetInstance) {
+  await runHook(instance.type, 'postExpand', getInstanceContext(instance));
+}
+
+export async function runPostJumpHook(instance: HSnippetInstance, direction: number) {
+  await runHook(instance.type, 'postJump', {
+    ...getInstanceContext(instance),
+    tabstop: instance.selectedPlaceholder,
+    direction,
+  });
+}
@@ -0,0 +1,38 @@
+import type * as vscode from 'vscode';
+
+// The output channel errors of snippets are reported in.
+export interface IOutputChannel {
+  appendLine(value: string): void;
+  show(preserveFocus?: boolean): void;
+  dispose(): void;
+}
+
+// What the parts of hsnips that don't need an editor get from the editor they run in: its text
+// types, the settings and the workspace. It's vscode in the extension, and a plain implementation
+// when snippets are expanded from the command line.
+export interface IHost {
+  Position: typeof vscode.Position;
+  Range: typeof vscode.Range;
+  SnippetString: typeof vscode.SnippetString;
+  // The value of an `hsnips` setting, such as `multiLineContext`.
+  getSetting<T>(key: string): T | undefined;
+  // Whether the value of an `hsnips` setting comes from the settings of the workspace or of one of
+  // its folders, rather than from the user settings or the default.
+  isWorkspaceSetting(key: string): boolean;
+  getWorkspaceFolders(): readonly { name: string; uri: vscode.Uri }[];
+  // The scopes of the document at a position, for context expressions, if they're known.
+  getScopes(document: vscode.TextDocument, position: vscode.Position): string[] | undefined;
+  createOutputChannel(name: string): IOutputChannel;
+  showWarningMessage(message: string): void;
+}
+
+let currentHost: IHost | undefined;
+
+export function setHost(host: IHost) {
+  currentHost = host;
+}
+
+export function getHost(): IHost {
+  if (!currentHost) throw new Error('The hsnips host must be set before snippets are used');
+  return currentHost;
+}
@@ -1,6 +1,13 @@
 import { HSnippetUtils } from './hsnippetUtils';
+import { ISnippetHookContext } from './hooks';
 
-export type GeneratorResult = [(string | { block: number })[], string[]];
+export interface IBlockError {
+  block: number;
+  line: number;
+  error: unknown;
+}
+
+export type GeneratorResult = [(string | { block: number })[], string[], IBlockError[]];
 export type GeneratorFunction = (
   texts: string[],
   matchGroups: string[],
@@ -15,14 +22,46 @@ export interface ContextInfo {
 
 export type ContextFilter = (context: ContextInfo) => boolean;
 
+export type SnippetHook = (snip: ISnippetHookContext) => unknown;
+
+// Code run around the expansion of a snippet, as UltiSnips actions.
+export interface ISnippetHooks {
+  preExpand?: SnippetHook;
+  postExpand?: SnippetHook;
+  postJump?: SnippetHook;
+}
+
+// The directives defining each hook in snippet files.
+export const HOOK_DIRECTIVES = new Map<string, keyof ISnippetHooks>([
+  ['pre_expand', 'preExpand'],
+  ['post_expand', 'postExpand'],
+  ['post_jump', 'postJump'],
+]);
+
+// A test declared after a snippet, `input` is typed in an empty document, where `<tab>` and
+// `<s-tab>` expand snippets or jump between tab stops, `<esc>` leaves the snippet and `<cursor>`
+// adds a cursor, the document should then contain `output`.
+export interface ISnippetTest {
+  name: string;
+  input: string;
+  output: string;
+  line: number;
+}
+
 // Represents a snippet template from which new instances can be created.
 export class HSnippet {
   trigger: string;
   description: string;
   generator: GeneratorFunction;
   contextFilter?: ContextFilter;
+  hooks: ISnippetHooks;
   regexp?: RegExp;
   priority: number;
+  filePath: string;
+  line: number;
+  // Where the snippet comes from, such as the global snippets or a workspace folder.
+  origin = '';
+  tests: ISnippetTest[] = [];
 
   // UltiSnips-like options.
   automatic = false;
@@ -34,12 +73,16 @@ export class HSnippet {
   constructor(
     header: IHSnippetHeader,
     generator: GeneratorFunction,
-    contextFilter?: ContextFilter
+    contextFilter?: ContextFilter,
+    hooks: ISnippetHooks = {}
   ) {
     this.description = header.description;
     this.generator = generator;
     this.contextFilter = contextFilter;
+    this.hooks = hooks;
     this.priority = header.priority || 0;
+    this.filePath = header.filePath || '';
+    this.line = header.line || 0;
 
     if (header.trigger instanceof RegExp) {
       this.regexp = header.trigger;
@@ -61,4 +104,6 @@ export interface IHSnippetHeader {
   description: string;
   flags: string;
   priority?: number;
+  filePath?: string;
+  line?: number;
 }
@@ -1,26 +1,42 @@
-import * as vscode from 'vscode';
-import { DynamicRange, GrowthType, IChangeInfo } from './dynamicRange';
-import { applyOffset, getWorkspaceUri } from './utils';
-import { HSnippet, GeneratorResult } from './hsnippet';
-import { HSnippetUtils } from './hsnippetUtils';
+import type * as vscode from 'vscode';
+import { DynamicRange, IChangeInfo, IOffsetDocument, RangeStickiness } from './dynamicRange';
+import { getOutputChannel, getWorkspaceUri } from './utils';
+import { getHost } from './host';
+import { isSnippetDisabled, profile, ProfileStage } from './profiler';
+import { HSnippet, GeneratorResult, IBlockError } from './hsnippet';
+import { HSnippetUtils, IExpansionContext } from './hsnippetUtils';
+import { applyTransform, ITransform, parseTransform } from './transform';
+import type { ITextEdit } from './memoryEditor';
 
 enum HSnippetPartType {
   Placeholder,
   Block,
+  Transform,
 }
 
 class HSnippetPart {
   type: HSnippetPartType;
   range: DynamicRange;
   content: string;
+  initialContent: string;
   id?: number;
+  parent?: HSnippetPart;
+  transform?: ITransform;
   updates: IChangeInfo[];
 
-  constructor(type: HSnippetPartType, range: DynamicRange, content: string, id?: number) {
+  constructor(
+    type: HSnippetPartType,
+    range: DynamicRange,
+    content: string,
+    id?: number,
+    parent?: HSnippetPart
+  ) {
     this.type = type;
     this.range = range;
     this.content = content;
+    this.initialContent = content;
     this.id = id;
+    this.parent = parent;
     this.updates = [];
   }
 
@@ -29,25 +45,297 @@ class HSnippetPart {
     this.range.update(this.updates);
     this.updates = [];
   }
+
+  isDescendantOf(part: HSnippetPart): boolean {
+    if (!this.parent) return false;
+    return this.parent == part || this.parent.isDescendantOf(part);
+  }
+
+  // Mirrors vscode's snippet session, which skips a placeholder when its text, or the text of any
+  // of its parents, was deleted while the user was editing another placeholder.
+  isCollapsed(): boolean {
+    if (this.range.range.isEmpty && this.initialContent.length > 0) return true;
+    return this.parent ? this.parent.isCollapsed() : false;
+  }
+}
+
+// A placeholder whose closing brace hasn't been found yet, variables with a default value, such as
+// `${TM_FILENAME:foo}`, are also tracked here so their closing brace is not mistaken for the end of
+// the placeholder which contains them.
+interface IOpenPlaceholder {
+  part?: HSnippetPart;
+  start: number;
+  content: string;
+}
+
+interface ISnippetLayout {
+  parts: HSnippetPart[];
+  blockParts: HSnippetPart[];
+  placeholderIds: number[];
+  snippetString: string;
+  text: string;
+  end: number;
+}
+
+// The offsets and contents of the parts of a snippet when the text of its range was `text`.
+interface IInstanceState {
+  start: number;
+  end: number;
+  text: string;
+  parts: { start: number; end: number; content: string }[];
+}
+
+// The states kept for undoing and redoing, the older ones are forgotten.
+const MAX_STATES = 100;
+
+const TABSTOP_REGEX = /\$(\d+)|\$\{(\d+)\}/y;
+const PLACEHOLDER_REGEX = /\$\{(\d+):/y;
+const CHOICE_REGEX = /\$\{(\d+)\|((?:\\.|[^|\\])*)\|\}/y;
+const VARIABLE_REGEX = /\$\{[_a-zA-Z]\w*(:|\})/y;
+const TRANSFORM_REGEX = /\$\{(\d+)\/((?:\\.|[^/\\])*)\/((?:\\.|\$\{\d+:\/\w+\}|[^/\\])*)\/(\w*)\}/y;
+
+const VISUAL_REGEX = /(\\.)|\$\{VISUAL(?::((?:\\.|[^}\\])*))?\}/g;
+
+// Replaces the `${VISUAL}` tokens of the snippet body with the selected text, or with their default
+// content, as in `${VISUAL:default}`, when there's no selection. Lines after the first one are
+// indented as the token is, on top of the indentation vscode adds when inserting the snippet.
+function insertVisual(sections: (string | { block: number })[], visual: string) {
+  let escapedVisual = visual.replace(/[$}\\]/g, '\\$&');
+
+  return sections.map((section) => {
+    if (typeof section != 'string') return section;
+
+    return section.replace(VISUAL_REGEX, (token, escaped, defaultContent, index) => {
+      if (escaped) return token;
+      if (!visual) return defaultContent || '';
+
+      let lineStart = section.lastIndexOf('\n', index) + 1;
+      let indent = (/^[ \t]*/.exec(section.substring(lineStart, index)) as RegExpExecArray)[0];
+      return escapedVisual.replace(/\n/g, `\n${indent}`);
+    });
+  });
+}
+
+// vscode inserts snippets with the line breaks of the document, `EndOfLine.CRLF` being 2.
+function getLineBreak(document: vscode.TextDocument) {
+  return document.eol == 2 ? '\r\n' : '\n';
+}
+
+function execAt(regex: RegExp, text: string, index: number) {
+  regex.lastIndex = index;
+  return regex.exec(text);
+}
+
+// Walks through the generator output keeping track of where each placeholder and code block will
+// end up once vscode inserts the snippet, placeholders may have default content, contain other
+// placeholders or be choices, in which case the first choice is the default content. Mirrors and
+// transformations get the content of their placeholder from `placeholderDefaults`, transformations
+// are inserted as plain text, since they're updated by us rather than by vscode. The snippet is
+// inserted at the `offset` of `document`, with its line breaks replaced by `lineBreak`.
+function layoutSnippet(
+  sections: (string | { block: number })[],
+  blocks: string[],
+  document: IOffsetDocument,
+  offset: number,
+  lineBreak: string,
+  placeholderDefaults: Map<number, string> = new Map()
+): ISnippetLayout {
+  let parts: HSnippetPart[] = [];
+  let blockParts: HSnippetPart[] = [];
+  let placeholderIds: number[] = [];
+  let snippetString = '';
+  let snippetText = '';
+  let open: IOpenPlaceholder[] = [];
+
+  const currentParent = () => {
+    for (let i = open.length - 1; i >= 0; i--) {
+      if (open[i].part) return open[i].part;
+    }
+  };
+
+  // Text that ends up in the document is also part of the content of every open placeholder, it
+  // comes without the escapes of the snippet syntax.
+  const appendText = (text: string) => {
+    offset += text.replace(/\n/g, lineBreak).length;
+    snippetText += text;
+    open.forEach((o) => (o.content += text));
+  };
+
+  const addPlaceholder = (id: number, start: number, content: string) => {
+    let part = new HSnippetPart(
+      HSnippetPartType.Placeholder,
+      new DynamicRange(document, start, start),
+      content,
+      id,
+      currentParent()
+    );
+
+    if (!placeholderIds.includes(id)) placeholderIds.push(id);
+    parts.push(part);
+    return part;
+  };
+
+  const closePlaceholder = () => {
+    let placeholder = open.pop() as IOpenPlaceholder;
+    if (!placeholder.part) return;
+
+    placeholder.part.range = new DynamicRange(document, placeholder.start, offset);
+    placeholder.part.content = placeholder.content;
+    placeholder.part.initialContent = placeholder.content;
+  };
+
+  for (let section of sections) {
+    if (typeof section != 'string') {
+      // Blocks have their dollars escaped by `runCodeBlocks`, the other escapes are left as is.
+      let block = blocks[section.block];
+      let content = block.replace(/\\\$/g, '$');
+      let start = offset;
+      let parent = currentParent();
+      appendText(content);
+
+      let part = new HSnippetPart(
+        HSnippetPartType.Block,
+        new DynamicRange(document, start, offset),
+        content,
+        undefined,
+        parent
+      );
+      parts.push(part);
+      blockParts.push(part);
+
+      snippetString += block;
+      continue;
+    }
+
+    let text = '';
+    let copied = 0;
+    let i = 0;
+    while (i < section.length) {
+      let char = section[i];
+      let match;
+
+      if (char == '\\' && i + 1 < section.length && '$}\\'.includes(section[i + 1])) {
+        text += section[i + 1];
+        i += 2;
+        continue;
+      }
+
+      if (char == '}' && open.length) {
+        appendText(text);
+        text = '';
+        closePlaceholder();
+        i++;
+        continue;
+      }
+
+      if (char != '$') {
+        text += char;
+        i++;
+        continue;
+      }
+
+      appendText(text);
+      text = '';
+
+      if ((match = execAt(TABSTOP_REGEX, section, i))) {
+        let id = Number(match[1] || match[2]);
+        let content = placeholderDefaults.get(id) || '';
+        let start = offset;
+        let part = addPlaceholder(id, start, content);
+        appendText(content);
+        part.range = new DynamicRange(document, start, offset);
+      } else if ((match = execAt(TRANSFORM_REGEX, section, i))) {
+        let id = Number(match[1]);
+        let transform;
+        try {
+          transform = parseTransform(match[2], match[3], match[4]);
+        } catch (e) {
+          text += match[0];
+          i += match[0].length;
+          continue;
+        }
+
+        let content = applyTransform(placeholderDefaults.get(id) || '', transform);
+        let start = offset;
+        appendText(content);
+
+        let part = new HSnippetPart(
+          HSnippetPartType.Transform,
+          new DynamicRange(document, start, offset),
+          content,
+          id,
+          currentParent()
+        );
+        part.transform = transform;
+        parts.push(part);
+
+        snippetString += section.substring(copied, i) + content.replace(/[$}\\]/g, '\\$&');
+        copied = i + match[0].length;
+      } else if ((match = execAt(PLACEHOLDER_REGEX, section, i))) {
+        let part = addPlaceholder(Number(match[1]), offset, '');
+        open.push({ part, start: offset, content: '' });
+      } else if ((match = execAt(CHOICE_REGEX, section, i))) {
+        let choice = match[2].split(/(?<!\\),/)[0].replace(/\\([,|\\])/g, '$1');
+        let start = offset;
+        let part = addPlaceholder(Number(match[1]), start, choice);
+        appendText(choice);
+        part.range = new DynamicRange(document, start, offset);
+      } else if ((match = execAt(VARIABLE_REGEX, section, i))) {
+        if (match[1] == ':') open.push({ start: offset, content: '' });
+        else text += match[0];
+      } else {
+        text += char;
+        i++;
+        continue;
+      }
+
+      i += match[0].length;
+    }
+
+    appendText(text);
+    snippetString += section.substring(copied);
+  }
+
+  // Malformed snippets may leave placeholders open, they'll span until the end of the snippet.
+  while (open.length) closePlaceholder();
+
+  placeholderIds.sort((a, b) => a - b);
+  if (placeholderIds[0] == 0) placeholderIds.shift();
+  placeholderIds.push(0);
+
+  return { parts, blockParts, placeholderIds, snippetString, text: snippetText, end: offset };
 }
 
 export class HSnippetInstance {
   type: HSnippet;
   matchGroups: string[];
+  expansion: Partial<IExpansionContext>;
+  indentation: string;
   editor: vscode.TextEditor;
   range: DynamicRange;
   placeholderIds: number[];
   selectedPlaceholder: number;
   parts: HSnippetPart[];
   blockParts: HSnippetPart[];
-  blockChanged: boolean;
+  // The code blocks and transformations we replaced, with the text they were replaced by, whose
+  // changes are told apart from the changes made by the user when they come.
+  pendingEdits: Map<HSnippetPart, string> = new Map();
+  blockErrors: Map<number, string>;
   snippetString: vscode.SnippetString;
+  // The text inserted by the snippet, before any placeholder is edited.
+  text: string;
+  // What vscode replaces the line breaks of the snippet with, the line break of the document and
+  // the indentation of the line the snippet starts at.
+  private lineBreak: string;
+  private states: IInstanceState[] = [];
 
   constructor(
     type: HSnippet,
     editor: vscode.TextEditor,
     position: vscode.Position,
-    matchGroups: string[]
+    matchGroups: string[],
+    expansion: Partial<IExpansionContext> = {},
+    deferBlocks = false
   ) {
     // 验证 editor 和 document 的有效性
     if (!editor) {
@@ -60,107 +348,127 @@ export class HSnippetInstance {
     this.type = type;
     this.editor = editor;
     this.matchGroups = matchGroups;
-    this.selectedPlaceholder = 0;
-    this.placeholderIds = [];
-    this.blockChanged = false;
-
-    let generatorResult = this.runCodeBlocks(true);
+    this.expansion = expansion;
+    this.blockErrors = new Map();
 
     // For a lack of creativity, I'm referring to the parts of the array that are returned by the
     // snippet function as 'sections', and the result of the interpolated javascript in the snippets
     // are referred to as 'blocks', as in code blocks.
-    let [sections, blocks] = generatorResult;
-
-    this.parts = [];
-    this.blockParts = [];
-
-    let start = position;
-    let snippetString = '';
-    const indentLevel = editor.document.lineAt(position.line).firstNonWhitespaceCharacterIndex;
-
-    for (let section of sections) {
-      let rawSection = section;
-
-      if (typeof rawSection != 'string') {
-        let block = blocks[rawSection.block];
-        let endPosition = applyOffset(position, block, indentLevel);
-        let range = new DynamicRange(position, endPosition);
-
-        let part = new HSnippetPart(HSnippetPartType.Block, range, block);
-        this.parts.push(part);
-        this.blockParts.push(part);
-
-        snippetString += block;
-        position = endPosition;
-        continue;
-      }
-
-      snippetString += rawSection;
-
-      // TODO: Handle snippets with default content in a placeholder.
-      let PLACEHOLDER_REGEX = /\$(\d+)|\$\{(\d+)\}/;
-      let match;
-      while ((match = PLACEHOLDER_REGEX.exec(rawSection))) {
-        let text = rawSection.substring(0, match.index);
-        position = applyOffset(position, text, indentLevel);
-        let range = new DynamicRange(position, position);
-
-        let placeholderId = Number(match[1] || match[2]);
-        if (!this.placeholderIds.includes(placeholderId)) this.placeholderIds.push(placeholderId);
-        this.parts.push(new HSnippetPart(HSnippetPartType.Placeholder, range, '', placeholderId));
-
-        rawSection = rawSection.substring(match.index + match[0].length);
+    let [sections, blocks] = this.runCodeBlocks(true);
+
+    const document = editor.document;
+    const indentLevel = document.lineAt(position.line).firstNonWhitespaceCharacterIndex;
+    const visual = expansion.visual || '';
+    const start = document.offsetAt(position);
+    this.indentation = document.lineAt(position.line).text.substring(0, indentLevel);
+    this.lineBreak = getLineBreak(document) + this.indentation;
+    let layout = layoutSnippet(
+      insertVisual(sections, visual),
+      blocks,
+      document,
+      start,
+      this.lineBreak
+    );
+
+    // The code blocks, mirrors and transformations should see the default content of the
+    // placeholders, so we run them again once we know what it is.
+    let placeholderDefaults: Map<number, string> = new Map();
+    for (let part of layout.parts) {
+      if (part.type == HSnippetPartType.Placeholder && part.content && part.id !== undefined) {
+        if (!placeholderDefaults.has(part.id)) placeholderDefaults.set(part.id, part.content);
       }
+    }
 
-      position = applyOffset(position, rawSection, indentLevel);
+    let hasTransforms = layout.parts.some((p) => p.type == HSnippetPartType.Transform);
+    if (placeholderDefaults.size > 0 || hasTransforms) {
+      let defaults = layout.parts
+        .filter((p) => p.type == HSnippetPartType.Placeholder)
+        .map((p) => placeholderDefaults.get(p.id as number) || '');
+
+      if (placeholderDefaults.size > 0) [sections, blocks] = this.runCodeBlocks(true, defaults);
+      layout = layoutSnippet(
+        insertVisual(sections, visual),
+        blocks,
+        document,
+        start,
+        this.lineBreak,
+        placeholderDefaults
+      );
     }
 
-    this.snippetString = new vscode.SnippetString(snippetString);
-    this.range = new DynamicRange(start, position);
+    // Instances inserted along with instances whose code blocks have other values leave them empty
+    // until `fillBlocks` is called.
+    if (deferBlocks) {
+      layout = layoutSnippet(
+        insertVisual(sections, visual),
+        blocks.map(() => ''),
+        document,
+        start,
+        this.lineBreak,
+        placeholderDefaults
+      );
+    }
 
-    this.placeholderIds.sort();
-    if (this.placeholderIds[0] == 0) this.placeholderIds.shift();
-    this.placeholderIds.push(0);
+    this.parts = layout.parts;
+    this.blockParts = layout.blockParts;
+    this.placeholderIds = layout.placeholderIds;
     this.selectedPlaceholder = this.placeholderIds[0];
+    this.snippetString = new (getHost().SnippetString)(layout.snippetString);
+    this.text = layout.text;
+    this.range = new DynamicRange(document, start, layout.end);
   }
 
   runCodeBlocks(stripDollars = true, placeholderContents?: string[]) {
-    let generatorResult: GeneratorResult = [[], []];
-    let hsnippetUtils = new HSnippetUtils();
+    let generatorResult: GeneratorResult = [[], [], []];
+    let hsnippetUtils = new HSnippetUtils({
+      ...this.expansion,
+      description: this.type.description,
+    });
 
-    // TODO, update parser so only the block that threw the error does not expand, perhaps replace
-    // the block with the error message.
     try {
       // 验证 editor 和 document 的有效性
       if (!this.editor || !this.editor.document) {
         throw new Error('Editor or document is not available');
       }
 
-      generatorResult = this.type.generator(
-        new Proxy(placeholderContents || [], {
-          get(target, key) {
-            let index = Number(key);
-            if (target[index]) return target[index];
-            else return '';
-          },
-        }),
-        this.matchGroups,
-        getWorkspaceUri(),
-        this.editor.document.uri.toString(),
-        hsnippetUtils
+      let texts = new Proxy(placeholderContents || [], {
+        get(target, key) {
+          let index = Number(key);
+          if (target[index]) return target[index];
+          else return '';
+        },
+      });
+      let documentUri = this.editor.document.uri.toString();
+
+      generatorResult = profile(this.type, ProfileStage.Generator, () =>
+        this.type.generator(texts, this.matchGroups, getWorkspaceUri(), documentUri, hsnippetUtils)
       );
     } catch (e: unknown) {
       if (e instanceof Error) {
         console.error('[HSnips] Error in runCodeBlocks:', e);
-        vscode.window.showWarningMessage(
+        getHost().showWarningMessage(
           `Snippet ${this.type.description} failed to expand with error: ${e.message}`
         );
       }
     }
 
-    generatorResult[1] = generatorResult[1].map((block) => {
+    let blockErrors = generatorResult[2];
+
+    generatorResult[1] = generatorResult[1].map((block, i) => {
+      let blockError = blockErrors.find((e) => e.block == i);
+      if (blockError) {
+        let message = this.reportBlockError(blockError);
+
+        // Keep the last value the block had, if there is one, so the snippet isn't disrupted while
+        // the user is typing something that makes the block throw for a moment.
+        if (this.blockParts && this.blockParts[i]) return this.blockParts[i].content;
+        block = `[${message}]`;
+      }
+
       if (stripDollars) {
         block = block.replace(/\$/g, '\\$');
+      } else {
+        block = this.indent(block);
       }
 
       block = HSnippetUtils.format(block, hsnippetUtils);
@@ -171,18 +479,64 @@ export class HSnippetInstance {
     return generatorResult;
   }
 
+  // vscode adds the indentation of the line where the snippet starts to the lines it inserts, and
+  // uses the line break of the document, which we have to do ourselves when replacing text of the
+  // snippet.
+  private indent(text: string) {
+    return text.replace(/\r?\n/g, this.lineBreak);
+  }
+
+  private reportBlockError({ block, line, error }: IBlockError) {
+    let message = error instanceof Error ? error.message : String(error);
+
+    // Blocks are run on every placeholder change, so we only report when the error changes.
+    if (this.blockErrors.get(block) != message) {
+      this.blockErrors.set(block, message);
+      let location = this.type.filePath ? `${this.type.filePath}:${line}` : `line ${line}`;
+      getOutputChannel().appendLine(
+        `[${new Date().toLocaleTimeString()}] Code block of snippet "${
+          this.type.description || this.type.trigger
+        }" (${location}) threw: ${message}`
+      );
+    }
+
+    return message;
+  }
+
   nextPlaceholder() {
-    let currentIndex = this.placeholderIds.indexOf(this.selectedPlaceholder);
-    this.selectedPlaceholder = this.placeholderIds[currentIndex + 1];
-    return this.selectedPlaceholder != undefined && this.selectedPlaceholder != 0;
+    return this.movePlaceholder(1);
   }
 
   prevPlaceholder() {
+    return this.movePlaceholder(-1);
+  }
+
+  private movePlaceholder(direction: number) {
     let currentIndex = this.placeholderIds.indexOf(this.selectedPlaceholder);
-    this.selectedPlaceholder = this.placeholderIds[currentIndex - 1];
+
+    do {
+      currentIndex += direction;
+      this.selectedPlaceholder = this.placeholderIds[currentIndex];
+    } while (this.selectedPlaceholder && this.isPlaceholderCollapsed(this.selectedPlaceholder));
+
     return this.selectedPlaceholder != undefined && this.selectedPlaceholder != 0;
   }
 
+  private isPlaceholderCollapsed(id: number) {
+    let parts = this.parts.filter((p) => p.type == HSnippetPartType.Placeholder && p.id == id);
+    return parts.length > 0 && parts.every((p) => p.isCollapsed());
+  }
+
+  getTabstops() {
+    return this.parts
+      .filter((p) => p.type == HSnippetPartType.Placeholder)
+      .map((p) => ({
+        id: p.id as number,
+        range: p.range.range,
+        text: this.editor.document.getText(p.range.range),
+      }));
+  }
+
   debugLog() {
     let parts = this.parts;
     for (let i = 0; i < parts.length; i++) {
@@ -195,92 +549,188 @@ export class HSnippetInstance {
     }
   }
 
-  // Updates the location of all the placeholder blocks and code blocks, and if any change happened
-  // to the placeholder blocks then run the generator function again with the updated values so the
-  // code blocks are updated.
-  update(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
-    let ordChanges = [...changes];
-    ordChanges.sort((a, b) => {
-      if (a.range.end.isBefore(b.range.end)) return -1;
-      else if (a.range.end.isEqual(b.range.end)) return 0;
-      else return 1;
+  // Remembers the parts of the snippet for the text it has in the document, so undoing or redoing
+  // back to that text brings them back.
+  saveState() {
+    let { start, end } = this.range;
+    let parts = this.parts.map(({ range, content }) => {
+      return { start: range.start, end: range.end, content };
     });
+    this.states.push({ start, end, text: this.getText(start, end), parts });
+    if (this.states.length > MAX_STATES) this.states.shift();
+  }
 
-    let changedPlaceholders = [];
-    let currentPart = 0;
+  private getText(start: number, end: number) {
+    let document = this.editor.document;
+    let { Range } = getHost();
+    return document.getText(new Range(document.positionAt(start), document.positionAt(end)));
+  }
 
-    // Expand ranges from left to right, preserving relative part positions.
-    for (let change of ordChanges) {
-      if (!change) continue;
+  /**
+   * Goes back to the last state the snippet had for the text the document has now, after changes
+   * were undone or redone. Returns false when there's none, as when the expansion itself was
+   * undone, in which case the snippet should be left.
+   */
+  rewind(): boolean {
+    for (let i = this.states.length - 1; i >= 0; i--) {
+      let state = this.states[i];
+      if (this.getText(state.start, state.end) != state.text) continue;
+
+      this.range.start = state.start;
+      this.range.end = state.end;
+      this.parts.forEach((part, j) => {
+        part.range.start = state.parts[j].start;
+        part.range.end = state.parts[j].end;
+        part.content = state.parts[j].content;
+        part.updates = [];
+      });
+      this.pendingEdits.clear();
+      this.saveState();
+      return true;
+    }
 
-      let part = this.parts[currentPart];
+    return false;
+  }
 
-      while (currentPart < this.parts.length) {
-        if (part.range.range.end.isAfterOrEqual(change.range.end)) {
-          break;
-        }
+  // Whether changes edit the text of the snippet, or insert text right next to it, where it can't
+  // be told whether it belongs to the snippet.
+  overlaps(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+    let { start, end } = this.range;
+    return changes.some(
+      ({ rangeOffset, rangeLength }) => rangeOffset + rangeLength >= start && rangeOffset <= end
+    );
+  }
 
-        currentPart++;
-        part = this.parts[currentPart];
-      }
+  // The change made by inserting the snippet in place of `triggerRange`, with the indentation
+  // vscode adds to its lines.
+  getInsertion(triggerRange: vscode.Range): vscode.TextDocumentContentChangeEvent {
+    let document = this.editor.document;
+    let rangeOffset = document.offsetAt(triggerRange.start);
+    let rangeLength = document.offsetAt(triggerRange.end) - rangeOffset;
+    return { range: triggerRange, rangeOffset, rangeLength, text: this.indent(this.text) };
+  }
 
-      if (currentPart >= this.parts.length) break;
-
-      while (part.range.contains(change.range)) {
-        if (
-          (part.type == HSnippetPartType.Placeholder &&
-            part.id == this.selectedPlaceholder &&
-            !this.blockChanged) ||
-          (part.type == HSnippetPartType.Block && this.blockChanged && part.content == change.text)
-        ) {
-          if (part.type == HSnippetPartType.Placeholder) changedPlaceholders.push(part);
-          part.updates.push({ change, growth: GrowthType.Grow });
-          currentPart++;
-          part = this.parts[currentPart];
-          break;
-        }
+  // Moves the snippet along with changes made outside of it, such as the insertion of the instances
+  // expanded at the cursors before it.
+  shift(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+    let updates = changes.map((change) => ({ change, stickiness: RangeStickiness.ClosedOpen }));
+    this.range.update(updates);
+    this.parts.forEach((part) => part.range.update(updates));
+  }
 
-        currentPart++;
-        part = this.parts[currentPart];
-      }
+  // Fills the code blocks of an instance created with `deferBlocks`, once it's inserted, returning
+  // the edits to make.
+  fillBlocks(): ITextEdit[] {
+    let placeholders = this.parts.filter((p) => p.type == HSnippetPartType.Placeholder);
+    return this.getBlockEdits(placeholders);
+  }
 
-      for (let i = currentPart; i < this.parts.length; i++) {
-        this.parts[i].updates.push({ change, growth: GrowthType.FixRight });
-      }
+  // Updates the location of all the placeholder blocks and code blocks, and if any change happened
+  // to the placeholder blocks then run the generator function again with the updated values. The
+  // edits of the code blocks are returned rather than made, so the edits of the instances expanded
+  // together, or nested in each other, are made at once.
+  trackChanges(changes: readonly vscode.TextDocumentContentChangeEvent[]): ITextEdit[] {
+    // The changes of an event are all in the document before any of them, so the part each of them
+    // edits is found before any part moves.
+    for (let change of changes) {
+      let editedIndex = this.findEditedPart(change);
+      let edited = this.parts[editedIndex];
+
+      // The part being edited grows along with every placeholder containing it, the parts before
+      // it stay before the new text and the parts after it, including the parts it contains, go
+      // after it. Without an edited part, the parts containing the change grow with it.
+      this.parts.forEach((part, i) => {
+        let stickiness = RangeStickiness.ClosedOpen;
+
+        if (edited && (part == edited || edited.isDescendantOf(part))) {
+          stickiness = RangeStickiness.OpenOpen;
+        } else if (edited ? i < editedIndex : part.range.containsChange(change)) {
+          stickiness = RangeStickiness.OpenClosed;
+        }
+
+        part.updates.push({ change, stickiness });
+      });
     }
 
-    this.range.update(ordChanges.map((c) => ({ change: c, growth: GrowthType.Grow })));
+    this.range.update(changes.map((change) => ({ change, stickiness: RangeStickiness.OpenOpen })));
     this.parts.forEach((p) => p.updateRange());
 
-    if (this.blockChanged) this.blockChanged = false;
-    if (!changedPlaceholders.length) return;
-
     // 验证 editor 和 document 的有效性
     if (!this.editor || !this.editor.document) {
       console.error('[HSnips] Editor or document not available in update method');
-      return;
+      return [];
     }
 
-    changedPlaceholders.forEach((p) => (p.content = this.editor.document.getText(p.range.range)));
-    let placeholderContents = this.parts
-      .filter((p) => p.type == HSnippetPartType.Placeholder)
-      .map((p) => p.content);
+    // Editing a nested placeholder also changes the content of its parents, so every placeholder
+    // is checked instead of only the selected one.
+    let placeholders = this.parts.filter((p) => p.type == HSnippetPartType.Placeholder);
+    let placeholdersChanged = false;
 
-    let blocks = this.runCodeBlocks(false, placeholderContents)[1];
+    for (let placeholder of placeholders) {
+      let content = this.editor.document.getText(placeholder.range.range);
+      if (content != placeholder.content) {
+        placeholder.content = content;
+        placeholdersChanged = true;
+      }
+    }
 
-    this.editor.edit((edit) => {
-      for (let i = 0; i < blocks.length; i++) {
-        let range = this.blockParts[i].range;
-        let oldContent = this.blockParts[i].content;
-        let content = blocks[i];
+    // The state is saved before the code blocks are run, while the document still has their
+    // previous content.
+    this.saveState();
+    if (!placeholdersChanged) return [];
+    return this.getBlockEdits(placeholders);
+  }
 
-        if (content != oldContent) {
-          edit.replace(range.range, content);
-          this.blockChanged = true;
-        }
+  // The part a change edits: a code block or transformation we replaced, or else the selected
+  // placeholder, which also gets the changes made by the snippets expanded in it.
+  private findEditedPart(change: vscode.TextDocumentContentChangeEvent) {
+    for (let [part, text] of this.pendingEdits) {
+      let { start, end } = part.range;
+      if (change.rangeOffset == start && change.rangeLength == end - start && change.text == text) {
+        this.pendingEdits.delete(part);
+        return this.parts.indexOf(part);
       }
+    }
+
+    return this.parts.findIndex(
+      (part) =>
+        part.type == HSnippetPartType.Placeholder &&
+        part.id == this.selectedPlaceholder &&
+        part.range.containsChange(change)
+    );
+  }
+
+  private getBlockEdits(placeholders: HSnippetPart[]): ITextEdit[] {
+    // Transformations are computed here, the generator is only run again when there are code
+    // blocks to update.
+    let transformParts = this.parts.filter((p) => p.type == HSnippetPartType.Transform);
+    let transforms = transformParts.map((part) => {
+      let placeholder = placeholders.find((p) => p.id == part.id);
+      let content = placeholder ? placeholder.content : '';
+      return this.indent(applyTransform(content, part.transform as ITransform));
     });
 
+    // The code blocks of a snippet which went over the time budget keep their last contents.
+    let blocks = this.blockParts.map((b) => b.content);
+    if (this.blockParts.length && !isSnippetDisabled(this.type)) {
+      let placeholderContents = placeholders.map((p) => p.content);
+      blocks = this.runCodeBlocks(false, placeholderContents)[1];
+    }
+
+    // The change of an edit has the line breaks of the document, which vscode replaces.
+    let eol = getLineBreak(this.editor.document);
+    let edits: ITextEdit[] = [];
+    const replace = (part: HSnippetPart, text: string) => {
+      if (text == part.content) return;
+      edits.push({ range: part.range.range, text });
+      this.pendingEdits.set(part, text.replace(/\r?\n/g, eol));
+    };
+    blocks.forEach((content, i) => replace(this.blockParts[i], content));
+    transformParts.forEach((part, i) => replace(part, transforms[i]));
+    if (edits.length == 0) return [];
+
     this.blockParts.forEach((b, i) => (b.content = blocks[i]));
+    transformParts.forEach((t, i) => (t.content = transforms[i]));
+    return edits;
   }
 }
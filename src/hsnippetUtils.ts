@@ -7,11 +7,63 @@ function makeId(length: number) {
   return `[${result}]`;
 }
 
-export class HSnippetUtils {
+// Where and how a snippet was expanded, code blocks can read it through the `snip` variable.
+export interface IExpansionContext {
+  // The 0-based line where the snippet was expanded, and its text before the expansion.
+  line: number;
+  lineText: string;
+  // The text of the line before and after the trigger.
+  before: string;
+  after: string;
+  trigger: string;
+  description: string;
+  languageId: string;
+  // The indentation of the line, and the editor settings used to indent it.
+  indentation: string;
+  tabSize: number;
+  insertSpaces: boolean;
+  // The text which was selected when the snippet was expanded to wrap it.
+  visual: string;
+}
+
+export class HSnippetUtils implements IExpansionContext {
   private placeholders: [string, string][];
+  line: number;
+  lineText: string;
+  before: string;
+  after: string;
+  trigger: string;
+  description: string;
+  languageId: string;
+  indentation: string;
+  tabSize: number;
+  insertSpaces: boolean;
+  visual: string;
 
-  constructor() {
+  constructor(context: Partial<IExpansionContext> = {}) {
     this.placeholders = [];
+    this.line = context.line || 0;
+    this.lineText = context.lineText || '';
+    this.before = context.before || '';
+    this.after = context.after || '';
+    this.trigger = context.trigger || '';
+    this.description = context.description || '';
+    this.languageId = context.languageId || '';
+    this.indentation = context.indentation || '';
+    this.tabSize = context.tabSize || 4;
+    this.insertSpaces = context.insertSpaces !== undefined ? context.insertSpaces : true;
+    this.visual = context.visual || '';
+  }
+
+  // The text of one indentation level.
+  get indentUnit() {
+    return this.insertSpaces ? ' '.repeat(this.tabSize) : '\t';
+  }
+
+  // Indents every line of `text` but the first one by `levels` levels, relative to the line where
+  // the snippet was expanded, whose indentation is added to every line of the snippet.
+  indentLines(text: string, levels = 1) {
+    return text.replace(/\n/g, `\n${this.indentUnit.repeat(levels)}`);
   }
 
   tabstop(tabstop: number, placeholder?: string) {
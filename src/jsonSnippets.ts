@@ -0,0 +1,156 @@
+import { HSnippet, GeneratorResult } from './hsnippet';
+import { HSnippetUtils } from './hsnippetUtils';
+
+// A snippet as defined in vscode's JSON snippet files.
+interface IJsonSnippet {
+  prefix?: string | string[];
+  body?: string | string[];
+  description?: string | string[];
+  scope?: string;
+}
+
+export interface IJsonExport {
+  content: string;
+  // Descriptions of the snippets which could not be exported, along with the reason.
+  skipped: string[];
+}
+
+// vscode snippet files may have comments and trailing commas, which `JSON.parse` doesn't accept.
+function stripJsonComments(content: string) {
+  let result = '';
+  // Where the last comma of the result is, while only whitespace and comments follow it.
+  let comma = -1;
+  let i = 0;
+
+  while (i < content.length) {
+    let char = content[i];
+    let end = i + 1;
+
+    if (char == '"') {
+      while (end < content.length && content[end] != '"') end += content[end] == '\\' ? 2 : 1;
+      end++;
+    } else if (content.startsWith('//', i)) {
+      end = content.indexOf('\n', i);
+      if (end == -1) end = content.length;
+      char = '';
+    } else if (content.startsWith('/*', i)) {
+      end = content.indexOf('*/', i) + 2;
+      if (end == 1) end = content.length;
+      char = '';
+    } else if ((char == '}' || char == ']') && comma != -1) {
+      result = result.substring(0, comma) + result.substring(comma + 1);
+    }
+
+    if (char == ',') comma = result.length;
+    else if (char && !/\s/.test(char)) comma = -1;
+
+    result += char ? content.substring(i, end) : '';
+    i = end;
+  }
+
+  return result;
+}
+
+function joinLines(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value.join('\n') : value || '';
+}
+
+// Parses a vscode JSON snippet file into hsnips snippets, grouped by the language they apply to,
+// snippets without a scope apply to `defaultLanguage`.
+export function parseJsonSnippets(
+  content: string,
+  filePath: string,
+  defaultLanguage: string
+): Map<string, HSnippet[]> {
+  let json = JSON.parse(stripJsonComments(content)) as { [name: string]: IJsonSnippet };
+  let snippetsByLanguage: Map<string, HSnippet[]> = new Map();
+
+  for (let [name, jsonSnippet] of Object.entries(json)) {
+    if (!jsonSnippet || jsonSnippet.prefix === undefined || jsonSnippet.body === undefined) {
+      continue;
+    }
+
+    let body = joinLines(jsonSnippet.body);
+    let description = joinLines(jsonSnippet.description) || name;
+    let prefixes = Array.isArray(jsonSnippet.prefix) ? jsonSnippet.prefix : [jsonSnippet.prefix];
+    let languages = jsonSnippet.scope
+      ? jsonSnippet.scope.split(',').map((l) => l.trim().toLowerCase())
+      : [defaultLanguage];
+    let nameIndex = content.indexOf(JSON.stringify(name));
+    let line = nameIndex == -1 ? 0 : content.substring(0, nameIndex).split('\n').length;
+
+    // The body is already written with vscode's snippet syntax, so it's used as it is.
+    const generator = (): GeneratorResult => [[body], [], []];
+
+    for (let language of languages.filter((l) => l)) {
+      if (!snippetsByLanguage.has(language)) snippetsByLanguage.set(language, []);
+
+      for (let prefix of prefixes) {
+        let header = { trigger: prefix, description, flags: '', filePath, line };
+        snippetsByLanguage.get(language)!.push(new HSnippet(header, generator));
+      }
+    }
+  }
+
+  return snippetsByLanguage;
+}
+
+// Exports the static snippets, the ones without code blocks or regex triggers, to vscode's JSON
+// snippet format, `language` is used as the scope of the snippets, unless it's `all`.
+export function exportJsonSnippets(snippets: HSnippet[], language: string): IJsonExport {
+  let json: { [name: string]: IJsonSnippet } = {};
+  let names: Set<string> = new Set();
+  let skipped: string[] = [];
+
+  for (let snippet of snippets) {
+    let name = snippet.description || snippet.trigger || String(snippet.regexp);
+
+    if (!snippet.trigger) {
+      skipped.push(`${name}: regex triggers are not supported`);
+      continue;
+    }
+
+    if (snippet.contextFilter) {
+      skipped.push(`${name}: context expressions are not supported`);
+      continue;
+    }
+
+    // vscode only offers snippets for the word before the cursor, in the suggestions.
+    let flags = [
+      snippet.automatic && 'A',
+      snippet.inword && 'i',
+      snippet.wordboundary && 'w',
+      snippet.beginningofline && 'b',
+    ].filter((flag) => flag);
+    if (flags.length) {
+      skipped.push(`${name}: the ${flags.join(', ')} flags are not supported`);
+      continue;
+    }
+
+    let sections: GeneratorResult[0];
+    try {
+      let result = snippet.generator([], [], '', '', new HSnippetUtils());
+      if (result[1].length) {
+        skipped.push(`${name}: snippets with code blocks are not supported`);
+        continue;
+      }
+      sections = result[0];
+    } catch (error) {
+      skipped.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    let key = name;
+    for (let i = 2; names.has(key); i++) key = `${name} (${i})`;
+    names.add(key);
+
+    json[key] = {
+      prefix: snippet.trigger,
+      body: sections.join('').split('\n'),
+      description: snippet.description || undefined,
+      scope: language == 'all' ? undefined : language,
+    };
+  }
+
+  return { content: JSON.stringify(json, null, 2) + '\n', skipped };
+}
@@ -0,0 +1,103 @@
+import { getHost } from './host';
+import { IHSnippetFile } from './parser';
+
+// Makes the snippets of `languages` apply to the documents of a language id, or to the documents
+// whose path matches a glob pattern.
+export interface ILanguageRule {
+  pattern: string;
+  languages: string[];
+}
+
+// The root scopes whose last part isn't the language they are the scope of.
+const SCOPE_LANGUAGES: Map<string, string> = new Map([
+  ['text.html.basic', 'html'],
+  ['text.html.derivative', 'html'],
+  ['source.js', 'javascript'],
+  ['source.js.jsx', 'javascriptreact'],
+  ['source.ts', 'typescript'],
+  ['source.tsx', 'typescriptreact'],
+  ['source.cs', 'csharp'],
+  ['source.shell', 'shellscript'],
+  ['source.fsharp', 'fsharp'],
+  ['source.objc', 'objective-c'],
+]);
+
+const EMBEDDED_SCOPE_REGEXP = /^(?:meta\.embedded\.block\.|source\.|text\.)/;
+
+export function isGlobPattern(pattern: string) {
+  return /[*?/\\[\]{}]/.test(pattern);
+}
+
+/**
+ * Collects the rules of the `hsnips.languageMap` setting, which maps language ids and glob patterns
+ * to a language or a list of languages, followed by the ones of the `languages` lines of the
+ * snippet files.
+ */
+export function getLanguageRules(snippetFiles: Map<string, IHSnippetFile[]>): ILanguageRule[] {
+  let rules: ILanguageRule[] = [];
+
+  let languageMap = getHost().getSetting<Record<string, string | string[]>>('languageMap') || {};
+  for (let [pattern, languages] of Object.entries(languageMap)) {
+    languages = Array.isArray(languages) ? languages : [languages];
+    rules.push({ pattern, languages: languages.map((l) => l.toLowerCase()) });
+  }
+
+  for (let [language, files] of snippetFiles) {
+    for (let file of files) {
+      for (let pattern of file.languages) rules.push({ pattern, languages: [language] });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Finds the language of the innermost embedded block in `scopes`, such as `javascript` in a
+ * `<script>` tag of an HTML document, or in a fenced code block of a markdown document.
+ */
+export function getScopeLanguage(scopes: string[]): string | undefined {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (!EMBEDDED_SCOPE_REGEXP.test(scopes[i])) continue;
+
+    // `source.js.embedded.html` is the scope of javascript, embedded in an HTML document.
+    let scope = scopes[i].replace(/^meta\.embedded\.block\./, 'source.').split('.embedded.')[0];
+    for (let name = scope; name.includes('.'); name = name.substring(0, name.lastIndexOf('.'))) {
+      let language = SCOPE_LANGUAGES.get(name);
+      if (language) return language;
+    }
+    return scope.substring(scope.lastIndexOf('.') + 1);
+  }
+}
+
+/**
+ * Lists the languages whose snippets apply to a document, by precedence: the language embedded at
+ * the cursor, if there's one, the language of the document, each followed by the languages they
+ * are mapped to, and finally the languages mapped to the glob patterns the document matches.
+ */
+export function getDocumentLanguages(
+  languageId: string,
+  rules: ILanguageRule[],
+  matchesPath: (pattern: string) => boolean,
+  embeddedLanguage?: string
+): string[] {
+  let languages: string[] = [];
+  const add = (language: string) => {
+    language = language.toLowerCase();
+    if (!languages.includes(language)) languages.push(language);
+  };
+
+  for (let language of embeddedLanguage ? [embeddedLanguage, languageId] : [languageId]) {
+    add(language);
+    for (let rule of rules) {
+      if (!isGlobPattern(rule.pattern) && rule.pattern.toLowerCase() == language.toLowerCase()) {
+        rule.languages.forEach(add);
+      }
+    }
+  }
+
+  for (let rule of rules) {
+    if (isGlobPattern(rule.pattern) && matchesPath(rule.pattern)) rule.languages.forEach(add);
+  }
+
+  return languages;
+}
@@ -0,0 +1,114 @@
+import type * as vscode from 'vscode';
+import { getHost } from './host';
+
+// An editor whose document is kept in memory, for expanding snippets outside of vscode.
+
+export interface ITextEdit {
+  range: vscode.Range;
+  text: string;
+}
+
+const WORD_REGEX = /[^\s`~!@#$%^&*()\-=+[{\]}\\|;:'",.<>/?]+/g;
+
+// The parts of a vscode document which hsnips uses, kept in memory.
+export class MemoryDocument {
+  text = '';
+  version = 1;
+  uri = { toString: () => 'untitled:hsnips', fsPath: '', scheme: 'untitled' };
+  languageId: string;
+
+  constructor(languageId: string) {
+    this.languageId = languageId;
+  }
+
+  get lineCount() {
+    return this.text.split('\n').length;
+  }
+
+  offsetAt(position: vscode.Position) {
+    let lines = this.text.split('\n');
+    let line = Math.min(position.line, lines.length - 1);
+    let offset = 0;
+    for (let i = 0; i < line; i++) offset += lines[i].length + 1;
+    return offset + Math.min(position.character, lines[line].length);
+  }
+
+  positionAt(offset: number) {
+    let before = this.text.substring(0, Math.max(0, offset)).split('\n');
+    return new (getHost().Position)(before.length - 1, before[before.length - 1].length);
+  }
+
+  getText(range?: vscode.Range) {
+    if (!range) return this.text;
+    return this.text.substring(this.offsetAt(range.start), this.offsetAt(range.end));
+  }
+
+  lineAt(lineOrPosition: number | vscode.Position) {
+    let line = typeof lineOrPosition == 'number' ? lineOrPosition : lineOrPosition.line;
+    let text = this.text.split('\n')[line];
+    let firstNonWhitespaceCharacterIndex = (/^\s*/.exec(text) as RegExpExecArray)[0].length;
+    return {
+      lineNumber: line,
+      text,
+      range: new (getHost().Range)(line, 0, line, text.length),
+      firstNonWhitespaceCharacterIndex,
+      isEmptyOrWhitespace: firstNonWhitespaceCharacterIndex == text.length,
+    };
+  }
+
+  getWordRangeAtPosition(position: vscode.Position) {
+    let text = this.lineAt(position.line).text;
+    let match;
+    WORD_REGEX.lastIndex = 0;
+    while ((match = WORD_REGEX.exec(text))) {
+      let end = match.index + match[0].length;
+      if (match.index <= position.character && position.character <= end) {
+        return new (getHost().Range)(position.line, match.index, position.line, end);
+      }
+    }
+  }
+
+  // Applies edits which don't overlap, returning them as content changes.
+  applyEdits(edits: ITextEdit[]): vscode.TextDocumentContentChangeEvent[] {
+    let changes = edits.map(({ range, text }) => ({
+      range,
+      rangeOffset: this.offsetAt(range.start),
+      rangeLength: this.offsetAt(range.end) - this.offsetAt(range.start),
+      text,
+    }));
+
+    [...changes]
+      .sort((a, b) => b.rangeOffset - a.rangeOffset)
+      .forEach((c) => {
+        let end = c.rangeOffset + c.rangeLength;
+        this.text = this.text.substring(0, c.rangeOffset) + c.text + this.text.substring(end);
+      });
+
+    this.version++;
+    return changes;
+  }
+}
+
+// An editor on `document`, with the default options of vscode, whose edits are passed to `onEdit`.
+export function createMemoryEditor(
+  document: MemoryDocument,
+  onEdit: (edits: ITextEdit[]) => Promise<void>
+): vscode.TextEditor {
+  let editor = {
+    document,
+    options: { tabSize: 4, insertSpaces: true },
+    edit: (callback: (editBuilder: vscode.TextEditorEdit) => void) => {
+      let edits: ITextEdit[] = [];
+      let editBuilder = {
+        replace: (range: vscode.Range, text: string) => edits.push({ range, text }),
+        insert: (position: vscode.Position, text: string) =>
+          edits.push({ range: new (getHost().Range)(position, position), text }),
+        delete: (range: vscode.Range) => edits.push({ range, text: '' }),
+      };
+      callback(editBuilder as unknown as vscode.TextEditorEdit);
+      return onEdit(edits).then(() => true);
+    },
+  };
+
+  return editor as unknown as vscode.TextEditor;
+}
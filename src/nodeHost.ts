@@ -0,0 +1,162 @@
+import type * as vscode from 'vscode';
+import * as path from 'path';
+import { readFileSync } from 'fs';
+import { IHost } from './host';
+
+// The host used outside of vscode, from the command line, the text types implement the parts of
+// their vscode counterparts hsnips uses.
+
+type PositionDelta = { lineDelta?: number; characterDelta?: number };
+
+class Position {
+  readonly line: number;
+  readonly character: number;
+
+  constructor(line: number, character: number) {
+    this.line = line;
+    this.character = character;
+  }
+
+  compareTo(other: Position) {
+    return this.line - other.line || this.character - other.character;
+  }
+
+  isBefore(other: Position) {
+    return this.compareTo(other) < 0;
+  }
+
+  isBeforeOrEqual(other: Position) {
+    return this.compareTo(other) <= 0;
+  }
+
+  isAfter(other: Position) {
+    return this.compareTo(other) > 0;
+  }
+
+  isAfterOrEqual(other: Position) {
+    return this.compareTo(other) >= 0;
+  }
+
+  isEqual(other: Position) {
+    return this.compareTo(other) == 0;
+  }
+
+  translate(lineDelta: number | PositionDelta = 0, characterDelta = 0) {
+    if (typeof lineDelta == 'object') {
+      characterDelta = lineDelta.characterDelta || 0;
+      lineDelta = lineDelta.lineDelta || 0;
+    }
+    return new Position(this.line + lineDelta, this.character + characterDelta);
+  }
+
+  with(line = this.line, character = this.character) {
+    return new Position(line, character);
+  }
+}
+
+class Range {
+  readonly start: Position;
+  readonly end: Position;
+
+  constructor(
+    start: Position | number,
+    end: Position | number,
+    endLine?: number,
+    endCharacter?: number
+  ) {
+    if (typeof start == 'number' && typeof end == 'number') {
+      start = new Position(start, end);
+      end = new Position(endLine as number, endCharacter as number);
+    }
+
+    let [first, second] = [start as Position, end as Position];
+    [this.start, this.end] = first.isAfter(second) ? [second, first] : [first, second];
+  }
+
+  get isEmpty() {
+    return this.start.isEqual(this.end);
+  }
+
+  get isSingleLine() {
+    return this.start.line == this.end.line;
+  }
+
+  contains(positionOrRange: Position | Range): boolean {
+    if (positionOrRange instanceof Range) {
+      return this.contains(positionOrRange.start) && this.contains(positionOrRange.end);
+    }
+    return this.start.isBeforeOrEqual(positionOrRange) && this.end.isAfterOrEqual(positionOrRange);
+  }
+
+  isEqual(other: Range) {
+    return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+  }
+
+  with(start = this.start, end = this.end) {
+    return new Range(start, end);
+  }
+
+  // Ranges which only touch intersect in an empty range, as in vscode.
+  intersection(other: Range): Range | undefined {
+    let start = this.start.isAfter(other.start) ? this.start : other.start;
+    let end = this.end.isBefore(other.end) ? this.end : other.end;
+    return start.isAfter(end) ? undefined : new Range(start, end);
+  }
+}
+
+class SnippetString {
+  value: string;
+
+  constructor(value = '') {
+    this.value = value;
+  }
+}
+
+// Reported errors are written to stderr, as stdout may be read by other programs.
+const outputChannel = {
+  appendLine: (value: string) => console.error(value),
+  show: () => undefined,
+  dispose: () => undefined,
+};
+
+interface IConfigurationContribution {
+  properties: { [key: string]: { default?: unknown } };
+}
+
+let defaultSettings: Map<string, unknown> | undefined;
+
+// The settings have the default values the extension declares.
+function getDefaultSettings() {
+  if (defaultSettings) return defaultSettings;
+
+  let manifest = JSON.parse(readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+  let settings: Map<string, unknown> = new Map();
+  for (let configuration of manifest.contributes.configuration as IConfigurationContribution[]) {
+    for (let [key, property] of Object.entries(configuration.properties)) {
+      settings.set(key, property.default);
+    }
+  }
+
+  defaultSettings = settings;
+  return settings;
+}
+
+export const nodeHost: IHost = {
+  Position: (Position as unknown) as typeof vscode.Position,
+  Range: (Range as unknown) as typeof vscode.Range,
+  SnippetString: (SnippetString as unknown) as typeof vscode.SnippetString,
+
+  getSetting<T>(key: string) {
+    return getDefaultSettings().get(`hsnips.${key}`) as T | undefined;
+  },
+
+  isWorkspaceSetting: () => false,
+
+  getWorkspaceFolders: () => [],
+
+  getScopes: () => undefined,
+
+  createOutputChannel: () => outputChannel,
+
+  showWarningMessage: (message) => console.warn(message),
+};
@@ -1,8 +1,81 @@
-import { HSnippet, IHSnippetHeader, GeneratorFunction, ContextFilter } from './hsnippet';
+import * as vm from 'vm';
+import * as path from 'path';
+import { readFileSync } from 'fs';
+import {
+  HSnippet,
+  IHSnippetHeader,
+  GeneratorFunction,
+  ContextFilter,
+  ISnippetHooks,
+  ISnippetTest,
+  HOOK_DIRECTIVES,
+} from './hsnippet';
+import { ISandboxOptions, Sandbox } from './sandbox';
 
 const CODE_DELIMITER = '``';
 const CODE_DELIMITER_REGEX = /``(?!`)/;
 const HEADER_REGEXP = /^snippet ?(?:`([^`]+)`|(\S+))?(?: "([^"]+)")?(?: ([AMiwb]*))?/;
+const TEST_HEADER_REGEXP = /^test(?: "([^"]*)")?\s*$/;
+const SCRIPT_FILENAME = 'hsnips-script.js';
+const SCRIPT_LINE_REGEXP = /hsnips-script\.js:(\d+)/;
+
+export interface IParseDiagnostic {
+  // The 1-based line of the snippet file where the problem is.
+  line: number;
+  message: string;
+}
+
+export class ParseError extends Error {
+  diagnostics: IParseDiagnostic[];
+
+  constructor(diagnostics: IParseDiagnostic[]) {
+    super(diagnostics.map((d) => `Line ${d.line}: ${d.message}`).join('\n'));
+    this.name = 'ParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// The javascript code generated from an hsnips file, every generated line remembers the line of the
+// file it came from, so errors in the generated code can be reported at the right place, lines
+// coming from included files also remember their original location.
+class Script {
+  lines: string[] = [];
+  sourceLines: number[] = [];
+  origins: string[] = [];
+
+  push(code: string, sourceLine = 0) {
+    for (let line of code.split('\n')) {
+      this.lines.push(line);
+      this.sourceLines.push(sourceLine);
+      this.origins.push('');
+    }
+  }
+
+  pop() {
+    this.lines.pop();
+    this.sourceLines.pop();
+    this.origins.pop();
+  }
+
+  append(script: Script, includeLine?: number, includePath?: string) {
+    this.lines.push(...script.lines);
+
+    if (includeLine) {
+      let fileName = path.basename(includePath || '');
+      this.sourceLines.push(...script.lines.map(() => includeLine));
+      this.origins.push(
+        ...script.origins.map((origin, i) => origin || `${fileName}:${script.sourceLines[i]}`)
+      );
+    } else {
+      this.sourceLines.push(...script.sourceLines);
+      this.origins.push(...script.origins);
+    }
+  }
+
+  toString() {
+    return this.lines.join('\n');
+  }
+}
 
 function parseSnippetHeader(header: string): IHSnippetHeader {
   let match = HEADER_REGEXP.exec(header);
@@ -11,7 +84,13 @@ function parseSnippetHeader(header: string): IHSnippetHeader {
   let trigger: string | RegExp = match[2];
   if (match[1]) {
     if (!match[1].endsWith('$')) match[1] += '$';
-    trigger = new RegExp(match[1], 'm');
+
+    try {
+      trigger = new RegExp(match[1], 'm');
+    } catch (error) {
+      let message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid regular expression trigger: ${message}`);
+    }
   }
 
   return {
@@ -21,13 +100,24 @@ function parseSnippetHeader(header: string): IHSnippetHeader {
   };
 }
 
+interface IHookInfo {
+  name: keyof ISnippetHooks;
+  code: string;
+  line: number;
+}
+
 interface IHSnippetInfo {
-  body: string;
+  body: Script;
   contextFilter?: string;
+  contextLine?: number;
+  hooks: IHookInfo[];
+  tests: ISnippetTest[];
+  // The include line responsible for the snippet, if it's defined in an included file.
+  includeLine?: number;
   header: IHSnippetHeader;
 }
 
-interface IHSnippetParseResult {
+interface IHSnippetParseResult extends ISnippetHooks {
   contextFilter?: ContextFilter;
   generatorFunction: GeneratorFunction;
 }
@@ -39,101 +129,458 @@ function escapeString(string: string) {
   return string.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
 }
 
-function parseSnippet(headerLine: string, lines: string[]): IHSnippetInfo {
+// The words after which a `/` starts a regex rather than being a division.
+const REGEX_PREFIX_KEYWORDS = [
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+];
+
+// Finds the end of the regex literal starting at `start`, whose slashes may also be in a class.
+function skipRegex(code: string, start: number) {
+  let end = start + 1;
+  let inClass = false;
+  while (end < code.length && code[end] != '\n' && (inClass || code[end] != '/')) {
+    if (code[end] == '\\') end++;
+    else if (code[end] == '[') inClass = true;
+    else if (code[end] == ']') inClass = false;
+    end++;
+  }
+  end++;
+  while (end < code.length && /\w/.test(code[end])) end++;
+  return end;
+}
+
+// Code blocks are wrapped in their own try/catch so a failing block doesn't prevent the rest of the
+// snippet from expanding, to keep the variables declared in one block available to the following
+// blocks, top level `let` and `const` declarations are turned into `var` declarations. Code which
+// can't be scanned to its end, with its brackets balanced, is left as it is.
+function hoistDeclarations(code: string) {
+  let result = '';
+  let depth = 0;
+  let i = 0;
+  // Whether a `/` found now starts a regex, as it does at the start of an expression.
+  let regexAllowed = true;
+
+  while (i < code.length) {
+    let char = code[i];
+    let end = i + 1;
+    let startsExpression = !')]'.includes(char);
+
+    if (/\s/.test(char)) {
+      startsExpression = regexAllowed;
+    } else if (char == '"' || char == "'" || char == '`') {
+      while (end < code.length && code[end] != char) end += code[end] == '\\' ? 2 : 1;
+      if (end >= code.length) return code;
+      end++;
+      startsExpression = false;
+    } else if (code.startsWith('//', i)) {
+      end = code.indexOf('\n', i);
+      if (end == -1) end = code.length;
+      startsExpression = regexAllowed;
+    } else if (code.startsWith('/*', i)) {
+      end = code.indexOf('*/', i) + 2;
+      if (end == 1) end = code.length;
+      startsExpression = regexAllowed;
+    } else if (char == '/' && regexAllowed) {
+      end = skipRegex(code, i);
+      if (end > code.length || code[end - 1] == '\n') return code;
+      startsExpression = false;
+    } else if ('{(['.includes(char)) {
+      depth++;
+    } else if ('})]'.includes(char)) {
+      depth--;
+      if (depth < 0) return code;
+    } else if (/[\w$]/.test(char)) {
+      let word = (/^[\w$]+/.exec(code.substring(i)) as RegExpExecArray)[0];
+      let isProperty = i > 0 && code[i - 1] == '.';
+      end = i + word.length;
+      startsExpression = !isProperty && REGEX_PREFIX_KEYWORDS.includes(word);
+
+      if (depth == 0 && !isProperty && (word == 'let' || word == 'const')) {
+        result += 'var';
+        i = end;
+        regexAllowed = true;
+        continue;
+      }
+    }
+
+    result += code.substring(i, end);
+    regexAllowed = startsExpression;
+    i = end;
+  }
+
+  return depth == 0 ? result : code;
+}
+
+function parseSnippet(headerLine: string, lines: string[], lineCount: number): IHSnippetInfo {
+  let headerLineNumber = lineCount - lines.length;
   let header = parseSnippetHeader(headerLine);
+  header.line = headerLineNumber;
 
-  let script = [`(t, m, w, path, snip) => {`];
-  script.push(`let rv = "";`);
-  script.push(`let _result = [];`);
-  script.push(`let _blockResults = [];`);
+  let script = new Script();
+  script.push(`(t, m, w, path, snip) => {`, headerLineNumber);
+  script.push(`let rv = "";`, headerLineNumber);
+  script.push(`let _result = [];`, headerLineNumber);
+  script.push(`let _blockResults = [];`, headerLineNumber);
+  script.push(`let _blockErrors = [];`, headerLineNumber);
 
   let isCode = false;
+  let isClosed = false;
+  let code: string[] = [];
+  let codeLine = 0;
 
   while (lines.length > 0) {
     let line = lines.shift() as string;
+    let lineNumber = lineCount - lines.length;
 
     if (isCode) {
-      if (!line.includes(CODE_DELIMITER)) {
-        script.push(line.trim());
+      if (line.startsWith('endsnippet')) {
+        break;
+      } else if (!line.includes(CODE_DELIMITER)) {
+        code.push(line.trim());
       } else {
-        let [code, ...rest] = line.split(CODE_DELIMITER_REGEX);
-        script.push(code.trim());
+        let [lastCode, ...rest] = line.split(CODE_DELIMITER_REGEX);
+        code.push(lastCode.trim());
         lines.unshift(rest.join(CODE_DELIMITER));
-        script.push(`_result.push({block: _blockResults.length});`);
-        script.push(`_blockResults.push(String(rv));`);
+
+        script.push(`_result.push({block: _blockResults.length});`, codeLine);
+        script.push(`try {`, codeLine);
+        hoistDeclarations(code.join('\n'))
+          .split('\n')
+          .forEach((codeText, i) => script.push(codeText, codeLine + i));
+        script.push(`_blockResults.push(String(rv));`, lineNumber);
+        script.push(`} catch (_error) {`, lineNumber);
+        script.push(
+          `_blockErrors.push({block: _blockResults.length, line: ${codeLine}, error: _error});`,
+          lineNumber
+        );
+        script.push(`_blockResults.push("");`, lineNumber);
+        script.push(`}`, lineNumber);
+        code = [];
         isCode = false;
       }
     } else {
       if (line.startsWith('endsnippet')) {
+        isClosed = true;
         break;
       } else if (!line.includes(CODE_DELIMITER)) {
-        script.push(`_result.push("${escapeString(line)}");`);
-        script.push(`_result.push("\\n");`);
+        script.push(`_result.push("${escapeString(line)}");`, lineNumber);
+        script.push(`_result.push("\\n");`, lineNumber);
       } else if (isCode == false) {
         let [text, ...rest] = line.split(CODE_DELIMITER_REGEX);
-        script.push(`_result.push("${escapeString(text)}");`);
-        script.push(`rv = "";`);
+        script.push(`_result.push("${escapeString(text)}");`, lineNumber);
+        script.push(`rv = "";`, lineNumber);
         lines.unshift(rest.join(CODE_DELIMITER));
+        codeLine = lineNumber;
         isCode = true;
       }
     }
   }
 
+  if (isCode) {
+    throw new ParseError([{ line: codeLine, message: 'Unterminated code block' }]);
+  } else if (!isClosed) {
+    throw new ParseError([{ line: headerLineNumber, message: 'Missing `endsnippet`' }]);
+  }
+
   // Remove extra newline at the end.
   script.pop();
-  script.push(`return [_result, _blockResults];`);
+  script.push(`return [_result, _blockResults, _blockErrors];`);
   script.push(`}`);
 
-  return { body: script.join('\n'), header };
+  return { body: script, header, hooks: [], tests: [] };
 }
 
-// Transforms an hsnips file into a single function where the global context lives, every snippet is
-// transformed into a local function inside this and the list of all snippet functions is returned
-// so we can build the approppriate HSnippet objects.
-export function parse(content: string): HSnippet[] {
+// Reads a test block, made of an `input` and an `output` section, each one followed by the lines
+// of its text, up to `endtest`.
+function parseTest(headerLine: string, lines: string[], lineCount: number): ISnippetTest {
+  let headerLineNumber = lineCount - lines.length;
+  let name = (TEST_HEADER_REGEXP.exec(headerLine) as RegExpExecArray)[1] || '';
+  let sections: Map<string, string[]> = new Map();
+  let section: string[] | undefined;
+  let isClosed = false;
+
+  while (lines.length > 0) {
+    let line = lines.shift() as string;
+    let lineNumber = lineCount - lines.length;
+
+    if (line.startsWith('endtest')) {
+      isClosed = true;
+      break;
+    } else if (line == 'input' || line == 'output') {
+      section = [];
+      sections.set(line, section);
+    } else if (section) {
+      section.push(line);
+    } else if (line.trim()) {
+      throw new ParseError([{ line: lineNumber, message: 'Expected `input` or `output`' }]);
+    }
+  }
+
+  if (!isClosed) {
+    throw new ParseError([{ line: headerLineNumber, message: 'Missing `endtest`' }]);
+  }
+
+  let input = sections.get('input');
+  let output = sections.get('output');
+  if (!input || !output) {
+    let message = 'Tests need an `input` and an `output` section';
+    throw new ParseError([{ line: headerLineNumber, message }]);
+  }
+
+  return { name, input: input.join('\n'), output: output.join('\n'), line: headerLineNumber };
+}
+
+// Gives a more helpful message for the errors commonly found when running the snippet code.
+function describeScriptError(errorMessage: string) {
+  if (errorMessage.includes('has already been declared')) {
+    return `Variable redeclaration detected in global block. Please check for duplicate variable declarations like 'let', 'const', or 'var' statements. Original error: ${errorMessage}`;
+  } else if (errorMessage.includes('Cannot read properties of undefined')) {
+    if (errorMessage.includes('document')) {
+      return `Trying to access 'document' property of undefined. This usually happens when 'vscode.window.activeTextEditor' is null (no active editor). Consider adding null checks: 'let editor = vscode.window.activeTextEditor; if (editor) { let document = editor.document; }'. Original error: ${errorMessage}`;
+    } else {
+      return `Accessing property of undefined object. This often happens when variables are not properly initialized or when VS Code objects are not available during parsing. Original error: ${errorMessage}`;
+    }
+  } else if (errorMessage.includes('is not defined')) {
+    return `Undefined variable detected. Make sure all variables used in your snippets are properly declared in the global block. Original error: ${errorMessage}`;
+  }
+
+  return errorMessage;
+}
+
+// Finds the line of the snippet file responsible for an error thrown by the generated code, both
+// syntax errors and runtime errors mention the generated line in their stack.
+function getErrorSource(error: unknown, script: Script) {
+  let stack = error instanceof Error ? error.stack || '' : '';
+  let match = SCRIPT_LINE_REGEXP.exec(stack);
+  if (!match) return { line: 1, origin: '' };
+
+  // The first line of the generated code is the function wrapping the script.
+  let index = Number(match[1]) - 2;
+  return { line: script.sourceLines[index] || 1, origin: script.origins[index] || '' };
+}
+
+interface IParsedFile {
+  script: Script;
+  snippetInfos: IHSnippetInfo[];
+  diagnostics: IParseDiagnostic[];
+  extends: string[];
+  languages: string[];
+}
+
+// Reads the global blocks and snippet blocks of an hsnips file, along with the ones of every file
+// it includes, `includeStack` holds the files currently being included, so cycles can be detected,
+// and `included` every file included so far, so a file included twice is only read once.
+function parseContent(
+  content: string,
+  filePath: string,
+  includeStack: string[],
+  included: Set<string>
+): IParsedFile {
   let lines = content.split(/\r?\n/);
+  let lineCount = lines.length;
 
-  let snippetInfos = [];
-  let script = [];
+  let snippetInfos: IHSnippetInfo[] = [];
+  let diagnostics: IParseDiagnostic[] = [];
+  let extendedLanguages: string[] = [];
+  let documentLanguages: string[] = [];
+  let script = new Script();
   let isCode = false;
+  let globalLine = 0;
   let priority = 0;
   let context = undefined;
+  let contextLine = 0;
+  let hooks: IHookInfo[] = [];
+  let lastSnippet: IHSnippetInfo | undefined;
+
+  const includeFile = (target: string, lineNumber: number) => {
+    let includePath = path.resolve(path.dirname(filePath), target);
+    if (!path.extname(includePath)) includePath += '.hsnips';
+
+    if (includeStack.includes(includePath)) {
+      let cycle = [...includeStack, includePath].map((f) => path.basename(f)).join(' -> ');
+      diagnostics.push({ line: lineNumber, message: `Include cycle: ${cycle}` });
+      return;
+    }
+
+    if (included.has(includePath)) return;
+    included.add(includePath);
+
+    let includedContent;
+    try {
+      includedContent = readFileSync(includePath, 'utf8');
+    } catch (error) {
+      diagnostics.push({ line: lineNumber, message: `Could not read included file ${target}` });
+      return;
+    }
+
+    let includedFile = parseContent(
+      includedContent,
+      includePath,
+      [...includeStack, includePath],
+      included
+    );
+
+    // Errors in the generated code are reported at the include line, as that's the line of this
+    // file responsible for them.
+    script.append(includedFile.script, lineNumber, includePath);
+    for (let info of includedFile.snippetInfos) {
+      info.includeLine = lineNumber;
+      snippetInfos.push(info);
+    }
+
+    extendedLanguages.push(...includedFile.extends);
+    documentLanguages.push(...includedFile.languages);
+    diagnostics.push(
+      ...includedFile.diagnostics.map((d) => ({
+        line: lineNumber,
+        message: `${path.basename(includePath)}:${d.line}: ${d.message}`,
+      }))
+    );
+  };
 
   while (lines.length > 0) {
     let line = lines.shift() as string;
+    let lineNumber = lineCount - lines.length;
 
     if (isCode) {
       if (line.startsWith('endglobal')) {
         isCode = false;
       } else {
-        script.push(line);
+        script.push(line, lineNumber);
       }
     } else if (line.startsWith('#')) {
       continue;
     } else if (line.startsWith('global')) {
       isCode = true;
+      globalLine = lineNumber;
     } else if (line.startsWith('priority ')) {
       priority = Number(line.substring('priority '.length).trim()) || 0;
     } else if (line.startsWith('context ')) {
       context = line.substring('context '.length).trim() || undefined;
+      contextLine = lineNumber;
+    } else if (HOOK_DIRECTIVES.has(line.split(' ')[0])) {
+      let directive = line.split(' ')[0];
+      let code = line.substring(directive.length).trim();
+      hooks = hooks.filter((h) => h.name != HOOK_DIRECTIVES.get(directive));
+      if (code) hooks.push({ name: HOOK_DIRECTIVES.get(directive)!, code, line: lineNumber });
+    } else if (line.startsWith('extends ')) {
+      let languages = line.substring('extends '.length).split(',');
+      extendedLanguages.push(...languages.map((l) => l.trim().toLowerCase()).filter((l) => l));
+    } else if (line.startsWith('languages ')) {
+      // Commas inside braces belong to glob patterns, such as `**/*.{md,Rmd}`.
+      let patterns = line.substring('languages '.length).split(/,(?![^{]*\})/);
+      documentLanguages.push(...patterns.map((p) => p.trim()).filter((p) => p));
+    } else if (line.startsWith('include ')) {
+      includeFile(line.substring('include '.length).trim(), lineNumber);
+    } else if (TEST_HEADER_REGEXP.test(line)) {
+      try {
+        let test = parseTest(line, lines, lineCount);
+        if (lastSnippet) lastSnippet.tests.push(test);
+        else diagnostics.push({ line: lineNumber, message: 'Tests must follow a snippet' });
+      } catch (error) {
+        diagnostics.push(...(error as ParseError).diagnostics);
+      }
     } else if (line.match(HEADER_REGEXP)) {
-      let info = parseSnippet(line, lines);
-      info.header.priority = priority;
-      info.contextFilter = context;
-      snippetInfos.push(info);
+      lastSnippet = undefined;
+
+      try {
+        let info = parseSnippet(line, lines, lineCount);
+        info.header.priority = priority;
+        info.header.filePath = filePath;
+        info.contextFilter = context;
+        info.contextLine = contextLine;
+        info.hooks = hooks;
+        snippetInfos.push(info);
+        lastSnippet = info;
+      } catch (error) {
+        if (error instanceof ParseError) {
+          diagnostics.push(...error.diagnostics);
+        } else {
+          let message = error instanceof Error ? error.message : String(error);
+          diagnostics.push({ line: lineNumber, message });
+        }
+      }
 
       priority = 0;
       context = undefined;
+      hooks = [];
     }
   }
 
+  if (isCode) {
+    diagnostics.push({ line: globalLine, message: 'Missing `endglobal`' });
+  }
+
+  return {
+    script,
+    snippetInfos,
+    diagnostics,
+    extends: extendedLanguages,
+    languages: documentLanguages,
+  };
+}
+
+export interface IParseOptions {
+  // Runs the code of the file in a sandbox, for files that can't be trusted.
+  sandbox?: ISandboxOptions;
+}
+
+export interface IHSnippetFile {
+  snippets: HSnippet[];
+  // Languages whose snippets are also available to the language of this file.
+  extends: string[];
+  // Language ids, and glob patterns on the paths of documents, the snippets also apply to.
+  languages: string[];
+}
+
+// Transforms an hsnips file into a single function where the global context lives, every snippet is
+// transformed into a local function inside this and the list of all snippet functions is returned
+// so we can build the approppriate HSnippet objects.
+export function parseFile(
+  content: string,
+  filePath = '',
+  options: IParseOptions = {}
+): IHSnippetFile {
+  let resolvedPath = filePath ? path.resolve(filePath) : '';
+  let { script, snippetInfos, diagnostics, extends: extendedLanguages, languages } = parseContent(
+    content,
+    filePath,
+    resolvedPath ? [resolvedPath] : [],
+    new Set(resolvedPath ? [resolvedPath] : [])
+  );
+
+  if (diagnostics.length) throw new ParseError(diagnostics);
+
   script.push(`return [`);
   for (let snippet of snippetInfos) {
     script.push('{');
     if (snippet.contextFilter) {
-      script.push(`contextFilter: (context) => (${snippet.contextFilter}),`);
+      script.push(
+        `contextFilter: (context) => (${snippet.contextFilter}),`,
+        snippet.includeLine || snippet.contextLine
+      );
+    }
+    // Hooks are async functions, so they can wait for the edits they make to the document.
+    for (let hook of snippet.hooks) {
+      script.push(`${hook.name}: async (snip) => {`, snippet.includeLine || hook.line);
+      script.push(hook.code, snippet.includeLine || hook.line);
+      script.push('},', snippet.includeLine || hook.line);
     }
-    script.push(`generatorFunction: ${snippet.body}`);
+    script.push(`generatorFunction:`);
+    script.append(snippet.body, snippet.includeLine, snippet.header.filePath);
     script.push('},');
   }
   script.push(`]`);
@@ -151,35 +598,47 @@ export function parse(content: string): HSnippet[] {
         return null;
       }
     };
-    
-    // Wrap the user's global code in a try-catch to provide better error context
-    const wrappedScript = script.join('\n');
-    
-    // Create the execution function with safer require
-    const executionFunction = new Function('require', wrappedScript);
-    generators = executionFunction(safeRequire) as IHSnippetParseResult[];
+
+    // The script is compiled with a known file name so errors can be traced back to the snippet
+    // file through their stack.
+    const compiledScript = new vm.Script(`(function (require) {\n${script}\n})`, {
+      filename: SCRIPT_FILENAME,
+    });
+
+    if (options.sandbox) {
+      const sandbox = new Sandbox(options.sandbox);
+      // The functions the sandbox gives back are wrapped, so every one runs with its time limit.
+      const executionFunction = sandbox.run(compiledScript) as (
+        require: (moduleName: string) => unknown
+      ) => IHSnippetParseResult[];
+      generators = executionFunction(sandbox.require);
+    } else {
+      const executionFunction = compiledScript.runInThisContext();
+      generators = executionFunction(safeRequire) as IHSnippetParseResult[];
+    }
   } catch (error) {
     console.error('[HSnips] Error executing snippet code:', error);
-    
-    // Provide more specific and helpful error messages
+
     let errorMessage = error instanceof Error ? error.message : String(error);
-    
-    if (errorMessage.includes('has already been declared')) {
-      errorMessage = `Variable redeclaration detected in global block. Please check for duplicate variable declarations like 'let', 'const', or 'var' statements. Original error: ${errorMessage}`;
-    } else if (errorMessage.includes('Cannot read properties of undefined')) {
-      if (errorMessage.includes('document')) {
-        errorMessage = `Trying to access 'document' property of undefined. This usually happens when 'vscode.window.activeTextEditor' is null (no active editor). Consider adding null checks: 'let editor = vscode.window.activeTextEditor; if (editor) { let document = editor.document; }'. Original error: ${errorMessage}`;
-      } else {
-        errorMessage = `Accessing property of undefined object. This often happens when variables are not properly initialized or when VS Code objects are not available during parsing. Original error: ${errorMessage}`;
-      }
-    } else if (errorMessage.includes('is not defined')) {
-      errorMessage = `Undefined variable detected. Make sure all variables used in your snippets are properly declared in the global block. Original error: ${errorMessage}`;
-    }
-    
-    throw new Error(`Failed to parse snippet code: ${errorMessage}`);
+    let { line, origin } = getErrorSource(error, script);
+    let message = `Failed to parse snippet code: ${describeScriptError(errorMessage)}`;
+    throw new ParseError([{ line, message: origin ? `${origin}: ${message}` : message }]);
   }
-  
-  return snippetInfos.map(
-    (s, i) => new HSnippet(s.header, generators[i].generatorFunction, generators[i].contextFilter)
-  );
+
+  let snippets = snippetInfos.map((s, i) => {
+    let { generatorFunction, contextFilter, preExpand, postExpand, postJump } = generators[i];
+    let snippet = new HSnippet(s.header, generatorFunction, contextFilter, {
+      preExpand,
+      postExpand,
+      postJump,
+    });
+    snippet.tests = s.tests;
+    return snippet;
+  });
+
+  return { snippets, extends: [...new Set(extendedLanguages)], languages: [...new Set(languages)] };
+}
+
+export function parse(content: string, filePath = '', options: IParseOptions = {}): HSnippet[] {
+  return parseFile(content, filePath, options).snippets;
 }
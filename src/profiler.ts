@@ -0,0 +1,86 @@
+import { performance } from 'perf_hooks';
+import { HSnippet } from './hsnippet';
+import { getHost } from './host';
+
+// The parts of a snippet run while typing, context filters and regexes on every change, and code
+// blocks on every change to a placeholder.
+export enum ProfileStage {
+  ContextFilter,
+  Regex,
+  Generator,
+}
+
+export const PROFILE_STAGE_NAMES = ['context', 'regex', 'code blocks'];
+
+export interface IStageTiming {
+  runs: number;
+  // Milliseconds spent in all the runs, and in the longest one.
+  total: number;
+  max: number;
+}
+
+export interface ISnippetProfile {
+  snippet: HSnippet;
+  stages: IStageTiming[];
+  total: number;
+}
+
+const SNIPPET_PROFILES: Map<HSnippet, ISnippetProfile> = new Map();
+const DISABLED_SNIPPETS: Set<HSnippet> = new Set();
+
+function disableSnippet(snippet: HSnippet, stage: ProfileStage, elapsed: number, budget: number) {
+  DISABLED_SNIPPETS.add(snippet);
+
+  let name = snippet.description || snippet.trigger || String(snippet.regexp);
+  let location = snippet.filePath ? ` (${snippet.filePath}:${snippet.line})` : '';
+  getHost().showWarningMessage(
+    `HSnips: Snippet "${name}"${location} was disabled, its ${PROFILE_STAGE_NAMES[stage]} took ` +
+      `${Math.round(elapsed)}ms, over the ${budget}ms of hsnips.timeBudget. Reload the snippets ` +
+      'to enable it again.'
+  );
+}
+
+function recordTiming(snippet: HSnippet, stage: ProfileStage, elapsed: number) {
+  let profile = SNIPPET_PROFILES.get(snippet);
+  if (!profile) {
+    let stages = PROFILE_STAGE_NAMES.map(() => ({ runs: 0, total: 0, max: 0 }));
+    profile = { snippet, stages, total: 0 };
+    SNIPPET_PROFILES.set(snippet, profile);
+  }
+
+  let timing = profile.stages[stage];
+  timing.runs++;
+  timing.total += elapsed;
+  timing.max = Math.max(timing.max, elapsed);
+  profile.total += elapsed;
+
+  let budget = getHost().getSetting<number>('timeBudget') || 0;
+  if (budget > 0 && elapsed > budget && !DISABLED_SNIPPETS.has(snippet)) {
+    disableSnippet(snippet, stage, elapsed, budget);
+  }
+}
+
+// Runs a stage of a snippet, recording how long it takes, even when it throws.
+export function profile<T>(snippet: HSnippet, stage: ProfileStage, run: () => T): T {
+  let start = performance.now();
+  try {
+    return run();
+  } finally {
+    recordTiming(snippet, stage, performance.now() - start);
+  }
+}
+
+export function isSnippetDisabled(snippet: HSnippet) {
+  return DISABLED_SNIPPETS.has(snippet);
+}
+
+// The snippets which took the most time, the slowest first.
+export function getSlowestSnippets(count: number): ISnippetProfile[] {
+  return [...SNIPPET_PROFILES.values()].sort((a, b) => b.total - a.total).slice(0, count);
+}
+
+// Forgets the timings and enables every snippet again, when the snippets are reloaded.
+export function resetProfiles() {
+  SNIPPET_PROFILES.clear();
+  DISABLED_SNIPPETS.clear();
+}
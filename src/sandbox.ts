@@ -0,0 +1,242 @@
+import * as vm from 'vm';
+
+export interface ISandboxOptions {
+  // The modules the code can require.
+  allowedModules: string[];
+  // Milliseconds after which a single run of the code is stopped.
+  timeout: number;
+}
+
+type AnyFunction = (...args: unknown[]) => unknown;
+type AnyObject = Record<string, unknown> | AnyFunction;
+
+interface ISandboxCall {
+  fn: AnyFunction;
+  thisArg: unknown;
+  args: unknown;
+  result?: unknown;
+}
+
+const CALL_SCRIPT = new vm.Script(
+  '__hsnipsCall.result = Reflect.apply(__hsnipsCall.fn, __hsnipsCall.thisArg, __hsnipsCall.args)'
+);
+
+// Properties through which an object leads to the constructors of its realm, and so to `Function`.
+const HIDDEN_KEYS: PropertyKey[] = ['constructor', '__proto__', 'caller', 'callee', 'arguments'];
+
+const isObject = (value: unknown): value is AnyObject =>
+  (typeof value == 'object' && value !== null) || typeof value == 'function';
+
+// Values thrown in the sandbox come from another realm, where `instanceof Error` doesn't hold, so
+// they're copied into errors of ours.
+function toHostError(error: unknown): unknown {
+  if (error instanceof Error || typeof error != 'object' || !error || !('message' in error)) {
+    return error;
+  }
+
+  let { name, message, stack } = error as Error;
+  let hostError = new Error(String(message));
+  if (name !== undefined) hostError.name = String(name);
+  if (stack !== undefined) hostError.stack = String(stack);
+  return hostError;
+}
+
+// A context of its own for the code of snippets that can't be trusted as much as the code of the
+// extension, where `require` only loads the allowed modules and every call of its functions is
+// stopped once it runs for too long.
+//
+// The objects of the extension reach the code only behind proxies without a prototype or a
+// constructor, so it can't get to the `Function` of the extension host, and what comes back is
+// copied, or wrapped when it's a function, so the extension never calls the code directly.
+// Allowed modules still give the code everything they can do.
+export class Sandbox {
+  private options: ISandboxOptions;
+  private context: vm.Context;
+  // The proxies given to the sandbox for our objects, and the objects behind them.
+  private proxies = new WeakMap<AnyObject, AnyObject>();
+  private targets = new WeakMap<AnyObject, AnyObject>();
+  // Our functions calling the functions of the sandbox, and the functions they call.
+  private wrappers = new WeakMap<AnyFunction, AnyFunction>();
+  private wrapped = new WeakMap<AnyFunction, AnyFunction>();
+
+  constructor(options: ISandboxOptions) {
+    this.options = options;
+    this.context = vm.createContext({ console: this.expose(console) });
+  }
+
+  require = (moduleName: string): unknown => {
+    if (!this.options.allowedModules.includes(moduleName)) {
+      throw new Error(
+        `Module '${moduleName}' can't be required by snippets from the workspace, it can be ` +
+          'allowed with the `hsnips.sandbox.allowedModules` setting'
+      );
+    }
+
+    return require(moduleName);
+  };
+
+  // Runs a script in the sandbox, returning its value.
+  run(script: vm.Script): unknown {
+    try {
+      return this.toHost(script.runInContext(this.context, { timeout: this.options.timeout }));
+    } catch (error) {
+      throw this.toHost(error);
+    }
+  }
+
+  // Calls a function of the sandbox, `thisArg` being a value of the sandbox as well, and returns
+  // its result as the sandbox gives it.
+  private callInContext(fn: AnyFunction, args: unknown[], thisArg?: unknown): unknown {
+    let previousCall = this.context.__hsnipsCall;
+    let call: ISandboxCall = Object.create(null);
+    call.fn = this.wrapped.get(fn) || fn;
+    call.thisArg = thisArg;
+    call.args = this.expose(args);
+    this.context.__hsnipsCall = call;
+
+    try {
+      CALL_SCRIPT.runInContext(this.context, { timeout: this.options.timeout });
+    } catch (error) {
+      throw this.toHost(error);
+    } finally {
+      this.context.__hsnipsCall = previousCall;
+    }
+
+    return call.result;
+  }
+
+  // Makes a function of the sandbox callable by the extension, running with its time limit.
+  wrap<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+    let wrapper = this.wrappers.get(fn as AnyFunction);
+    if (!wrapper) {
+      wrapper = (...args: unknown[]) => this.toHost(this.callInContext(fn as AnyFunction, args));
+      this.wrappers.set(fn as AnyFunction, wrapper);
+      this.wrapped.set(wrapper, fn as AnyFunction);
+    }
+
+    return wrapper as (...args: A) => R;
+  }
+
+  // Gives a value of ours to the sandbox.
+  expose(value: unknown): unknown {
+    if (!isObject(value)) return value;
+    if (this.targets.has(value)) return value;
+    let sandboxFunction = this.wrapped.get(value as AnyFunction);
+    if (sandboxFunction) return sandboxFunction;
+
+    let proxy = this.proxies.get(value);
+    if (!proxy) {
+      proxy = this.createProxy(value);
+      this.proxies.set(value, proxy);
+      this.targets.set(proxy, value);
+    }
+
+    return proxy;
+  }
+
+  // Takes a value from the sandbox: our objects come back from behind their proxies, functions are
+  // wrapped, promises are followed and the rest is copied.
+  toHost(value: unknown, copies = new Map<AnyObject, unknown>()): unknown {
+    if (!isObject(value)) return value;
+    let target = this.targets.get(value);
+    if (target) return target;
+    if (typeof value == 'function') return this.wrap(value as AnyFunction);
+    if (copies.has(value)) return copies.get(value);
+
+    let then = (value as { then?: unknown }).then;
+    if (typeof then == 'function') {
+      return new Promise((resolve, reject) => {
+        let onFulfilled = (result: unknown) => resolve(result);
+        this.callInContext(then as AnyFunction, [onFulfilled, reject], value);
+      });
+    }
+
+    if (Object.prototype.toString.call(value) == '[object Error]') return toHostError(value);
+
+    if (Array.isArray(value)) {
+      let copy: unknown[] = [];
+      copies.set(value, copy);
+      for (let i = 0; i < value.length; i++) copy.push(this.toHost(value[i], copies));
+      return copy;
+    }
+
+    let copy: Record<string, unknown> = {};
+    copies.set(value, copy);
+    for (let key of Object.keys(value)) {
+      copy[key] = this.toHost((value as Record<string, unknown>)[key], copies);
+    }
+    return copy;
+  }
+
+  // A proxy for an object of ours which shows no prototype. Its target is a stand-in of the same
+  // kind, so the invariants of proxies never force it to show the properties of the object itself.
+  private createProxy(value: AnyObject): AnyObject {
+    let standIn: AnyObject = Object.create(null);
+    if (Array.isArray(value)) standIn = ([] as unknown) as AnyObject;
+    if (typeof value == 'function') {
+      standIn = function () {
+        // Never called, the traps call the function itself.
+      };
+    }
+
+    let guard = <T>(run: () => T) => {
+      try {
+        return this.expose(run());
+      } catch (error) {
+        throw this.expose(error);
+      }
+    };
+
+    let isHidden = (key: PropertyKey) => HIDDEN_KEYS.includes(key);
+
+    return new Proxy(standIn, {
+      get: (_, key) => (isHidden(key) ? undefined : guard(() => Reflect.get(value, key))),
+      set: (_, key, newValue) => !isHidden(key) && Reflect.set(value, key, this.toHost(newValue)),
+      has: (_, key) => Reflect.has(value, key) || Reflect.has(standIn, key),
+      deleteProperty: (_, key) => Reflect.deleteProperty(value, key),
+      ownKeys: () => {
+        let keys = Reflect.ownKeys(value).filter((key) => !isHidden(key));
+        for (let key of Reflect.ownKeys(standIn)) if (!keys.includes(key)) keys.push(key);
+        return keys;
+      },
+      getOwnPropertyDescriptor: (_, key): PropertyDescriptor | undefined => {
+        let standInDescriptor = Reflect.getOwnPropertyDescriptor(standIn, key);
+        let descriptor = isHidden(key) ? undefined : Reflect.getOwnPropertyDescriptor(value, key);
+        if (!descriptor) return standInDescriptor && { ...standInDescriptor, value: undefined };
+
+        // The properties the stand-in can't lose have to be shown as it has them.
+        let { get, set, enumerable } = descriptor;
+        let configurable = standInDescriptor ? standInDescriptor.configurable : true;
+        if (get || set) {
+          let [getter, setter] = [get, set].map((f) => this.expose(f) as () => unknown);
+          return { get: getter, set: setter, enumerable, configurable };
+        }
+        let writable = descriptor.writable || !configurable;
+        return { value: this.expose(descriptor.value), writable, enumerable, configurable };
+      },
+      defineProperty: (_, key, descriptor) => {
+        if (isHidden(key)) return false;
+        let hostDescriptor: PropertyDescriptor = { ...descriptor };
+        for (let field of ['value', 'get', 'set'] as const) {
+          if (field in descriptor) hostDescriptor[field] = this.toHost(descriptor[field]);
+        }
+        return Reflect.defineProperty(value, key, hostDescriptor);
+      },
+      getPrototypeOf: () => null,
+      setPrototypeOf: () => false,
+      preventExtensions: () => false,
+      apply: (_, thisArg, args) =>
+        guard(() =>
+          Reflect.apply(
+            value as AnyFunction,
+            this.toHost(thisArg),
+            args.map((arg) => this.toHost(arg))
+          )
+        ),
+      construct: (_, args) =>
+        guard(() =>
+          Reflect.construct(value as AnyFunction, args.map((arg) => this.toHost(arg)))
+        ) as AnyObject,
+    });
+  }
+}
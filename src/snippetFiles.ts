@@ -0,0 +1,146 @@
+import * as path from 'path';
+import { readdirSync, readFileSync } from 'fs';
+import { HSnippet } from './hsnippet';
+import { parseFile, IHSnippetFile, IParseOptions } from './parser';
+import { parseJsonSnippets } from './jsonSnippets';
+import { convertUltiSnips, getUltiSnipsLanguage, IConversionWarning } from './ultisnips';
+import { getOutputChannel } from './utils';
+
+export function reportConversionWarnings(filePath: string, warnings: IConversionWarning[]) {
+  for (let warning of warnings) {
+    getOutputChannel().appendLine(`${filePath}:${warning.line}: ${warning.message}`);
+  }
+}
+
+function addSnippetFile(
+  snippetFiles: Map<string, IHSnippetFile[]>,
+  language: string,
+  snippetFile: IHSnippetFile
+) {
+  if (!snippetFiles.has(language)) snippetFiles.set(language, []);
+  (snippetFiles.get(language) as IHSnippetFile[]).push(snippetFile);
+}
+
+// Whether a file is a vscode JSON snippet file: a `.code-snippets` file, or a `.json` file named
+// after one of `languageIds`, or after any language when they aren't known, so the other JSON files
+// of a directory, such as `package.json`, aren't taken for snippets.
+export function isJsonSnippetFile(file: string, languageIds?: ReadonlySet<string>) {
+  let extension = path.extname(file).toLowerCase();
+  if (extension === '.code-snippets') return true;
+  if (extension !== '.json') return false;
+  return !languageIds || languageIds.has(path.basename(file, path.extname(file)).toLowerCase());
+}
+
+/**
+ * Reads the snippet files of a directory into `snippetFiles`, by language: hsnips files, UltiSnips
+ * files, which are converted, and vscode JSON snippet files. The snippets are marked as coming from
+ * `origin`, and files which can't be read are passed to `onError`. `languageIds` are the lowercase
+ * languages `.json` snippet files may be named after.
+ */
+export function readSnippetDir(
+  dirPath: string,
+  origin: string,
+  snippetFiles: Map<string, IHSnippetFile[]>,
+  onError: (file: string, error: unknown) => void,
+  parseOptions: IParseOptions = {},
+  languageIds?: ReadonlySet<string>
+) {
+  const files = readdirSync(dirPath);
+  const hsnipFiles = files.filter((file) =>
+    ['.hsnips', '.snippets'].includes(path.extname(file).toLowerCase())
+  );
+  const jsonFiles = files.filter((file) => isJsonSnippetFile(file, languageIds));
+
+  for (let file of jsonFiles) {
+    try {
+      let filePath = path.join(dirPath, file);
+      let extension = path.extname(file).toLowerCase();
+
+      // `.code-snippets` files apply to every language unless their snippets have a scope,
+      // `.json` files apply to the language they are named after, as in vscode.
+      let defaultLanguage =
+        extension === '.json' ? path.basename(file, extension).toLowerCase() : 'all';
+      let content = readFileSync(filePath, 'utf8');
+
+      for (let [language, snippets] of parseJsonSnippets(content, filePath, defaultLanguage)) {
+        snippets.forEach((s) => (s.origin = origin));
+        addSnippetFile(snippetFiles, language, { snippets, extends: [], languages: [] });
+      }
+    } catch (error) {
+      onError(file, error);
+    }
+  }
+
+  for (let file of hsnipFiles) {
+    try {
+      let filePath = path.join(dirPath, file);
+      let fileData = readFileSync(filePath, 'utf8');
+      let language = path.basename(file, '.hsnips').toLowerCase();
+
+      // UltiSnips files are converted when they are loaded.
+      if (path.extname(file).toLowerCase() === '.snippets') {
+        const conversion = convertUltiSnips(fileData);
+        reportConversionWarnings(filePath, conversion.warnings);
+        fileData = conversion.content;
+        language = getUltiSnipsLanguage(file);
+      }
+
+      const snippetFile = parseFile(fileData, filePath, parseOptions);
+      snippetFile.snippets.forEach((s) => (s.origin = origin));
+      addSnippetFile(snippetFiles, language, snippetFile);
+    } catch (error) {
+      onError(file, error);
+    }
+  }
+}
+
+// Sorts snippets by descending priority, the sort is stable so snippets with the same priority keep
+// their order.
+export function sortByPriority(snippets: HSnippet[]): HSnippet[] {
+  return snippets.sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Collects the snippets of languages, each followed by the snippets of the languages it extends, in
+ * the order in which they are declared, and finally the snippets available to all languages.
+ */
+export function resolveSnippets(
+  languages: string[],
+  snippetFiles: Map<string, IHSnippetFile[]>
+): HSnippet[] {
+  let snippets: HSnippet[] = [];
+  let visited: Set<string> = new Set();
+
+  const visit = (current: string, chain: string[]) => {
+    if (visited.has(current)) {
+      if (chain.includes(current)) {
+        getOutputChannel().appendLine(
+          `Ignoring cyclic extends: ${[...chain, current].join(' -> ')}`
+        );
+      }
+      return;
+    }
+
+    visited.add(current);
+
+    let languageFiles = snippetFiles.get(current);
+    if (!languageFiles) {
+      if (chain.length) {
+        getOutputChannel().appendLine(
+          `${chain[chain.length - 1]}.hsnips extends ${current}, which has no snippet file`
+        );
+      }
+      return;
+    }
+
+    for (let snippetFile of languageFiles) snippets.push(...snippetFile.snippets);
+    for (let snippetFile of languageFiles) {
+      for (let extended of snippetFile.extends) visit(extended, [...chain, current]);
+    }
+  };
+
+  for (let language of languages) visit(language, []);
+  visit('all', []);
+
+  return sortByPriority(snippets);
+}
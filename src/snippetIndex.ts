@@ -0,0 +1,271 @@
+import { HSnippet } from './hsnippet';
+
+// The text before the cursor which triggers are matched against: the line, the text since the
+// previous whitespace, and the word at the cursor.
+export interface ITriggerContext {
+  line: string;
+  context: string;
+  wordContext: string;
+}
+
+interface ITrieNode {
+  children: Map<string, ITrieNode>;
+  // The snippets whose triggers start with the text leading to the node, in the order of the list.
+  snippets: number[];
+}
+
+interface IRegexToken {
+  source: string;
+  // The character the token matches, when it only matches itself.
+  literal?: string;
+  // The number of groups the token is in, and for the end of a group, where the group starts.
+  depth: number;
+  groupStart?: number;
+}
+
+// What the matches of a regex trigger end with, either a literal text, or a character of a class.
+export interface IRegexFilter {
+  suffix: string;
+  lastChar?: RegExp;
+}
+
+interface IRegexSuffix {
+  snippet: number;
+  suffix: string;
+}
+
+// Characters which keep their meaning when escaped, the other escapes are classes or assertions.
+const ESCAPED_LITERALS = '\\^$.|?*+()[]{}/-';
+const REGEX_SYNTAX = '^$.|?*+()[]{}';
+const ESCAPE_REGEXP = /^\\(?:x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|c[a-zA-Z]|\d+|k<[^>]*>|[^])/;
+const GROUP_START_REGEXP = /^\((?:\?(?::|<?[=!]|<[^>]*>))?/;
+const QUANTIFIER_REGEXP = /^\{\d+(?:,\d*)?\}/;
+const CHAR_CLASS_REGEXP = /^(?:\.|\\[dDwWsS]|\[[^]*\])$/;
+const LOOKAROUND_REGEXP = /^\(\?<?[=!]/;
+
+// Regexes run with the `m` flag, where `$` also matches before these.
+const LINE_TERMINATORS = /[\r\u2028\u2029]/;
+
+function createNode(): ITrieNode {
+  return { children: new Map(), snippets: [] };
+}
+
+function insert(root: ITrieNode, trigger: string, snippet: number) {
+  let node = root;
+  // Triggers are matched by code units, like `endsWith` and `startsWith` do.
+  for (let i = 0; i < trigger.length; i++) {
+    let child = node.children.get(trigger[i]);
+    if (!child) {
+      child = createNode();
+      node.children.set(trigger[i], child);
+    }
+    child.snippets.push(snippet);
+    node = child;
+  }
+}
+
+function findPrefix(root: ITrieNode, prefix: string): number[] {
+  let node: ITrieNode | undefined = root;
+  for (let i = 0; i < prefix.length; i++) {
+    node = node.children.get(prefix[i]);
+    if (!node) return [];
+  }
+  return node.snippets;
+}
+
+// Splits the source of a regex into its characters, escapes, classes, and group delimiters.
+function tokenizeRegex(source: string): IRegexToken[] {
+  let tokens: IRegexToken[] = [];
+  let groupStarts: number[] = [];
+
+  for (let i = 0; i < source.length; ) {
+    let char = source[i];
+    let rest = source.substring(i);
+    let depth = groupStarts.length;
+    let token: IRegexToken;
+
+    if (char == '\\') {
+      let escape = (ESCAPE_REGEXP.exec(rest) || [rest])[0];
+      token = { source: escape, depth };
+      if (escape.length == 2 && ESCAPED_LITERALS.includes(escape[1])) token.literal = escape[1];
+    } else if (char == '[') {
+      // Classes end at the first unescaped `]`, but a leading one belongs to the class.
+      let end = 1;
+      if (rest[end] == '^') end++;
+      if (rest[end] == ']') end++;
+      while (end < rest.length && rest[end] != ']') end += rest[end] == '\\' ? 2 : 1;
+      token = { source: rest.substring(0, end + 1), depth };
+    } else if (char == '(') {
+      groupStarts.push(tokens.length);
+      token = { source: (GROUP_START_REGEXP.exec(rest) as RegExpExecArray)[0], depth };
+    } else if (char == ')') {
+      let groupStart = groupStarts.pop();
+      token = { source: char, depth: groupStarts.length, groupStart };
+    } else if (char == '{') {
+      token = { source: (QUANTIFIER_REGEXP.exec(rest) || [char])[0], depth };
+    } else {
+      token = { source: char, depth };
+      if (!REGEX_SYNTAX.includes(char)) token.literal = char;
+    }
+
+    tokens.push(token);
+    i += token.source.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Finds what every match of a regex trigger ends with, from the part of the regex before its final
+ * `$`: the characters matching themselves, going into the groups which end there, or when there are
+ * none, a class matching the last character. Regexes with alternatives at their top level, or
+ * which it can't be told of, have no filter.
+ */
+export function getRegexFilter(regexp: RegExp): IRegexFilter | undefined {
+  if (regexp.flags != 'm') return undefined;
+
+  let tokens = tokenizeRegex(regexp.source);
+  let end = tokens.pop();
+  if (!end || end.source != '$') return undefined;
+  if (tokens.some((token) => token.source == '|' && token.depth == 0)) return undefined;
+
+  let suffix = '';
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    let token = tokens[i];
+
+    if (token.literal !== undefined) {
+      suffix = token.literal + suffix;
+    } else if (token.source == ')' && token.groupStart !== undefined) {
+      let groupStart = token.groupStart;
+      let group = tokens.slice(groupStart + 1, i);
+      let hasAlternatives = group.some((t) => t.source == '|' && t.depth == token.depth + 1);
+      if (hasAlternatives || LOOKAROUND_REGEXP.test(tokens[groupStart].source)) break;
+    } else if (token.source.startsWith('(')) {
+      // The start of a group whose end was gone through.
+      continue;
+    } else {
+      if (!suffix && CHAR_CLASS_REGEXP.test(token.source)) {
+        return { suffix, lastChar: new RegExp(`^${token.source}$`) };
+      }
+      break;
+    }
+  }
+
+  return suffix ? { suffix } : undefined;
+}
+
+/**
+ * Finds the snippets a position can trigger without going through all of them. Literal triggers
+ * are kept in tries which are looked up with the context and its suffixes, and regex triggers are
+ * only run when the line ends with the literal text their matches end with. The candidates are a
+ * superset of the snippets which match, in the order of the list, so matching them gives the same
+ * completions as matching every snippet.
+ */
+export class SnippetIndex {
+  private snippets: HSnippet[];
+  private triggers = createNode();
+  private inwordTriggers = createNode();
+  private maxInwordLength = 0;
+  // Triggers which expand at the beginning of a line when the context ends with them.
+  private lineTriggers: Map<string, number[]> = new Map();
+  private maxLineTriggerLength = 0;
+  // Regex triggers by the last character of the text their matches end with, and the ones whose
+  // matches end with a class, by the characters they were found to match.
+  private regexSuffixes: Map<string, IRegexSuffix[]> = new Map();
+  private regexLastChars: { snippet: number; lastChar: RegExp }[] = [];
+  private regexesByLastChar: Map<string, number[]> = new Map();
+  private regexes: number[] = [];
+  private unfilteredRegexes: number[] = [];
+
+  constructor(snippets: HSnippet[]) {
+    this.snippets = snippets;
+
+    snippets.forEach((snippet, i) => {
+      if (snippet.trigger) {
+        let trigger = snippet.trigger;
+
+        if (snippet.inword) {
+          insert(this.inwordTriggers, trigger, i);
+          this.maxInwordLength = Math.max(this.maxInwordLength, trigger.length);
+          return;
+        }
+
+        insert(this.triggers, trigger, i);
+        if (snippet.beginningofline) {
+          if (!this.lineTriggers.has(trigger)) this.lineTriggers.set(trigger, []);
+          (this.lineTriggers.get(trigger) as number[]).push(i);
+          this.maxLineTriggerLength = Math.max(this.maxLineTriggerLength, trigger.length);
+        }
+      } else if (snippet.regexp) {
+        this.regexes.push(i);
+
+        // Multiline regexes can match at the end of any line of their context.
+        let filter = snippet.multiline ? undefined : getRegexFilter(snippet.regexp);
+        if (!filter) {
+          this.unfilteredRegexes.push(i);
+          return;
+        } else if (filter.lastChar) {
+          this.regexLastChars.push({ snippet: i, lastChar: filter.lastChar });
+          return;
+        }
+
+        let suffix = filter.suffix;
+        let lastChar = suffix[suffix.length - 1];
+        if (!this.regexSuffixes.has(lastChar)) this.regexSuffixes.set(lastChar, []);
+        (this.regexSuffixes.get(lastChar) as IRegexSuffix[]).push({ snippet: i, suffix });
+      }
+    });
+  }
+
+  private getRegexesByLastChar(char: string): number[] {
+    let snippets = this.regexesByLastChar.get(char);
+    if (!snippets) {
+      snippets = this.regexLastChars.filter((r) => r.lastChar.test(char)).map((r) => r.snippet);
+      this.regexesByLastChar.set(char, snippets);
+    }
+    return snippets;
+  }
+
+  getCandidates({ line, context, wordContext }: ITriggerContext): HSnippet[] {
+    let candidates: Set<number> = new Set();
+    const add = (snippets: number[]) => snippets.forEach((i) => candidates.add(i));
+
+    if (context) add(findPrefix(this.triggers, context));
+    if (wordContext) add(findPrefix(this.triggers, wordContext));
+
+    // Snippets which expand in words are completed from any suffix of the context.
+    let inwordStart = Math.max(context.length - this.maxInwordLength, 0);
+    for (let start = inwordStart; start < context.length; start++) {
+      add(findPrefix(this.inwordTriggers, context.substring(start)));
+    }
+
+    for (let length = 1; length <= Math.min(context.length, this.maxLineTriggerLength); length++) {
+      add(this.lineTriggers.get(context.substring(context.length - length)) || []);
+    }
+
+    if (LINE_TERMINATORS.test(line)) {
+      add(this.regexes);
+    } else {
+      let lastChar = line[line.length - 1];
+      add(this.unfilteredRegexes);
+      if (lastChar) add(this.getRegexesByLastChar(lastChar));
+      for (let { snippet, suffix } of this.regexSuffixes.get(lastChar) || []) {
+        if (line.endsWith(suffix)) candidates.add(snippet);
+      }
+    }
+
+    return [...candidates].sort((a, b) => a - b).map((i) => this.snippets[i]);
+  }
+}
+
+// Snippet lists aren't changed once they're resolved, so their indexes are kept with them.
+const SNIPPET_INDEXES: WeakMap<HSnippet[], SnippetIndex> = new WeakMap();
+
+export function getSnippetIndex(snippets: HSnippet[]): SnippetIndex {
+  let index = SNIPPET_INDEXES.get(snippets);
+  if (!index) {
+    index = new SnippetIndex(snippets);
+    SNIPPET_INDEXES.set(snippets, index);
+  }
+  return index;
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HSnippet } from './hsnippet';
+import { HSnippetInstance } from './hsnippetInstance';
+import { getSnippetContext } from './completion';
+import { getExpansionContext } from './utils';
+
+interface ISnippetPickItem extends vscode.QuickPickItem {
+  snippet: HSnippet;
+}
+
+const FLAG_NAMES: [keyof HSnippet, string][] = [
+  ['automatic', 'A'],
+  ['multiline', 'M'],
+  ['inword', 'i'],
+  ['wordboundary', 'w'],
+  ['beginningofline', 'b'],
+];
+
+let previewDecoration: vscode.TextEditorDecorationType | undefined;
+
+function getPreviewDecoration() {
+  if (!previewDecoration) {
+    previewDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorGhostText.foreground'),
+        fontStyle: 'italic',
+      },
+    });
+  }
+
+  return previewDecoration;
+}
+
+export function disposePreviewDecoration() {
+  if (previewDecoration) {
+    previewDecoration.dispose();
+    previewDecoration = undefined;
+  }
+}
+
+function toPickItem(snippet: HSnippet): ISnippetPickItem {
+  let flags = FLAG_NAMES.filter(([option]) => snippet[option]).map(([, flag]) => flag).join('');
+  let details = [];
+  if (flags) details.push(`flags: ${flags}`);
+  if (snippet.priority) details.push(`priority: ${snippet.priority}`);
+  if (snippet.filePath) {
+    let origin = snippet.origin ? ` (${snippet.origin})` : '';
+    details.push(`${path.basename(snippet.filePath)}:${snippet.line}${origin}`);
+  }
+
+  return {
+    label: snippet.trigger || String(snippet.regexp),
+    description: snippet.description,
+    detail: details.join(' · '),
+    snippet,
+  };
+}
+
+// Shows, after the cursor, what the snippet would expand to, only the first line of multiline
+// snippets can be shown.
+function showPreview(editor: vscode.TextEditor, snippet: HSnippet | undefined, visual: string) {
+  let decorations: vscode.DecorationOptions[] = [];
+
+  if (snippet) {
+    let preview;
+    try {
+      let expansion = getExpansionContext(editor, editor.selection, '', visual);
+      preview = new HSnippetInstance(snippet, editor, editor.selection.start, [], expansion).text;
+    } catch (error) {
+      preview = `[${error instanceof Error ? error.message : error}]`;
+    }
+
+    let lines = preview.split('\n');
+    let contentText = lines.length > 1 ? `${lines[0]} …` : lines[0];
+    let range = new vscode.Range(editor.selection.start, editor.selection.start);
+    decorations.push({ range, renderOptions: { after: { contentText } } });
+  }
+
+  editor.setDecorations(getPreviewDecoration(), decorations);
+}
+
+// Lets the user choose one of the snippets which apply at the cursor, previewing the active one
+// in the editor, wrapping `visual` when it's given.
+export function pickSnippet(
+  editor: vscode.TextEditor,
+  snippets: HSnippet[],
+  visual = ''
+): Promise<HSnippet | undefined> {
+  let snippetContext = getSnippetContext(editor.document, editor.selection.active);
+  let applicableSnippets = snippets.filter((snippet) => {
+    try {
+      return !snippet.contextFilter || snippet.contextFilter(snippetContext);
+    } catch (error) {
+      return false;
+    }
+  });
+
+  let quickPick = vscode.window.createQuickPick<ISnippetPickItem>();
+  quickPick.items = applicableSnippets.map(toPickItem);
+  quickPick.placeholder = 'Snippet to insert';
+  quickPick.matchOnDescription = true;
+  quickPick.matchOnDetail = true;
+
+  return new Promise((resolve) => {
+    let selected: HSnippet | undefined;
+
+    quickPick.onDidChangeActive((items) =>
+      showPreview(editor, items[0] && items[0].snippet, visual)
+    );
+    quickPick.onDidAccept(() => {
+      selected = quickPick.selectedItems[0] && quickPick.selectedItems[0].snippet;
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      showPreview(editor, undefined, visual);
+      quickPick.dispose();
+      resolve(selected);
+    });
+
+    quickPick.show();
+  });
+}
@@ -0,0 +1,353 @@
+import type * as vscode from 'vscode';
+import { HSnippet } from './hsnippet';
+import { HSnippetInstance } from './hsnippetInstance';
+import { CompletionInfo, getCompletions } from './completion';
+import { getExpansionContext } from './utils';
+import { getHost } from './host';
+import type { ITextEdit } from './memoryEditor';
+
+/**
+ * The instances of a snippet expanded together at several cursors, in the order of the document.
+ * vscode moves every cursor to the next tab stop at once, so the instances move through their
+ * placeholders together, while their code blocks are run with the content of their own
+ * placeholders.
+ */
+export class SnippetSession {
+  editor: vscode.TextEditor;
+  instances: HSnippetInstance[];
+  // Restored sessions aren't known to vscode, which forgets its snippets once their editor is
+  // hidden, so we move through their placeholders ourselves.
+  restored = false;
+
+  // Sessions are created once their instances are inserted.
+  constructor(editor: vscode.TextEditor, instances: HSnippetInstance[]) {
+    this.editor = editor;
+    this.instances = instances;
+    instances.forEach((instance) => instance.saveState());
+  }
+
+  get selectedPlaceholder() {
+    return this.instances[0].selectedPlaceholder;
+  }
+
+  contains(range: vscode.Range) {
+    return this.instances.some((instance) => instance.range.contains(range));
+  }
+
+  overlaps(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+    return this.instances.some((instance) => instance.overlaps(changes));
+  }
+
+  // Rewinds every instance after an undo or a redo, returning false when one of them can't be.
+  rewind() {
+    return this.instances.map((instance) => instance.rewind()).every((rewound) => rewound);
+  }
+
+  // Moves the session to the editor showing its document again.
+  attach(editor: vscode.TextEditor) {
+    this.editor = editor;
+    this.instances.forEach((instance) => (instance.editor = editor));
+  }
+
+  // The ranges of the selected placeholder of every instance, or the end of the instances once
+  // there's none, which are selected as vscode does for the sessions it knows.
+  getPlaceholderRanges() {
+    return this.instances.flatMap((instance) => {
+      let id = instance.selectedPlaceholder || 0;
+      let ranges = instance.getTabstops().filter((t) => t.id == id).map((t) => t.range);
+      if (!ranges.length) {
+        let end = instance.range.range.end;
+        ranges = [new (getHost().Range)(end, end)];
+      }
+      return ranges;
+    });
+  }
+
+  // Updates every instance with the changes of the document, returning the edits of their code
+  // blocks, which are made along with the ones of the sessions they're nested in.
+  trackChanges(changes: readonly vscode.TextDocumentContentChangeEvent[]): ITextEdit[] {
+    return this.instances.flatMap((instance) => instance.trackChanges(changes));
+  }
+
+  // Fills the code blocks of instances created with `deferBlocks`, once they're inserted.
+  async fillBlocks() {
+    let edits = this.instances.flatMap((instance) => instance.fillBlocks());
+    if (edits.length == 0) return;
+
+    await this.editor.edit(
+      (edit) => edits.forEach(({ range, text }) => edit.replace(range, text)),
+      { undoStopBefore: false, undoStopAfter: false }
+    );
+  }
+
+  // Forgets the edits of the code blocks which weren't made, so the next changes aren't taken for
+  // them.
+  discardPendingEdits() {
+    this.instances.forEach((instance) => instance.pendingEdits.clear());
+  }
+
+  nextPlaceholder() {
+    return this.instances.map((instance) => instance.nextPlaceholder()).some((moved) => moved);
+  }
+
+  prevPlaceholder() {
+    return this.instances.map((instance) => instance.prevPlaceholder()).some((moved) => moved);
+  }
+}
+
+export interface ICursorExpansion {
+  completion: CompletionInfo;
+  // The trigger the snippet replaces.
+  range: vscode.Range;
+}
+
+// The positions of the cursors after a character was typed at each of them. The changes of an event
+// are made at once, so their ranges are in the document before all of them.
+export function getTypedPositions(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+  let typed = changes.filter((c) => c.text.length == 1 && c.text != '\n' && c.range.isSingleLine);
+
+  return typed.map((change) => {
+    let shift = 0;
+    for (let other of typed) {
+      if (other === change || other.range.start.line != change.range.start.line) continue;
+      if (other.range.end.isBeforeOrEqual(change.range.start)) {
+        shift += 1 - (other.range.end.character - other.range.start.character);
+      }
+    }
+    return change.range.start.translate(0, 1 + shift);
+  });
+}
+
+// Adds to `expansion` the expansions of its snippet at the other `cursors` where the whole trigger
+// is before the cursor and doesn't overlap another one, `getSnippets` giving the snippets available
+// at a position.
+export function findCursorExpansions(
+  document: vscode.TextDocument,
+  expansion: ICursorExpansion,
+  cursors: readonly vscode.Position[],
+  getSnippets: (position: vscode.Position) => HSnippet[] | undefined
+): ICursorExpansion[] {
+  let expansions = [expansion];
+
+  for (let position of cursors) {
+    if (position.isEqual(expansion.range.end)) continue;
+    let snippets = getSnippets(position);
+    let completions = snippets && getCompletions(document, position, snippets);
+    if (!completions) continue;
+
+    const completion = (Array.isArray(completions) ? completions : [completions]).find(
+      (c) =>
+        c.snippet === expansion.completion.snippet &&
+        c.range.end.isEqual(position) &&
+        document.getText(c.range) == c.label
+    );
+    if (completion && expansions.every((e) => !e.range.intersection(completion.range))) {
+      expansions.push({ completion, range: completion.range });
+    }
+  }
+
+  return expansions;
+}
+
+// Creates the instances of a snippet expanded at several cursors, sorting `expansions` in the order
+// of the document. The instances are inserted at once with the text of the first one, so when their
+// code blocks give different text, they're created with empty code blocks which are filled once
+// they're inserted. Returns undefined when their text still differs.
+export function createCursorInstances(editor: vscode.TextEditor, expansions: ICursorExpansion[]) {
+  expansions.sort((a, b) => a.range.start.compareTo(b.range.start));
+
+  const createInstances = (deferBlocks: boolean) =>
+    expansions.map(
+      ({ completion, range }) =>
+        new HSnippetInstance(
+          completion.snippet,
+          editor,
+          range.start,
+          completion.groups,
+          getExpansionContext(editor, range, completion.label),
+          deferBlocks
+        )
+    );
+  const haveSameText = (instances: HSnippetInstance[]) =>
+    instances.every((i) => i.snippetString.value == instances[0].snippetString.value);
+
+  let instances = createInstances(false);
+  let deferBlocks = !haveSameText(instances);
+  if (deferBlocks) {
+    instances = createInstances(true);
+    if (!haveSameText(instances)) return undefined;
+  }
+
+  // The instances are laid out where their trigger starts, before the ones before them are
+  // inserted.
+  let insertions = instances.map((instance, i) => instance.getInsertion(expansions[i].range));
+  instances.forEach((instance, i) => instance.shift(insertions.slice(0, i)));
+
+  return { instances, deferBlocks };
+}
+
+interface ISuspendedSessions {
+  sessions: SnippetSession[];
+  // When the sessions can no longer be restored, in milliseconds since the epoch.
+  expires: number;
+}
+
+// The sessions of documents whose editors were hidden, by the URI of the document.
+const SUSPENDED_SESSIONS: Map<string, ISuspendedSessions> = new Map();
+
+/**
+ * Keeps the sessions of a document whose editor was hidden, the innermost first, so they're
+ * restored when the document is shown again within `lifetime` seconds.
+ */
+export function suspendSessions(
+  document: vscode.TextDocument,
+  sessions: SnippetSession[],
+  lifetime: number
+) {
+  let now = Date.now();
+  for (let [uri, suspended] of SUSPENDED_SESSIONS) {
+    if (suspended.expires <= now) SUSPENDED_SESSIONS.delete(uri);
+  }
+
+  let uri = document.uri.toString();
+  let previous = SUSPENDED_SESSIONS.get(uri);
+  SUSPENDED_SESSIONS.set(uri, {
+    sessions: [...sessions, ...(previous ? previous.sessions : [])],
+    expires: now + lifetime * 1000,
+  });
+}
+
+// Takes the sessions of the document of `editor` back, unless they expired.
+export function restoreSessions(editor: vscode.TextEditor): SnippetSession[] {
+  let uri = editor.document.uri.toString();
+  let suspended = SUSPENDED_SESSIONS.get(uri);
+  SUSPENDED_SESSIONS.delete(uri);
+  if (!suspended || suspended.expires <= Date.now()) return [];
+
+  for (let session of suspended.sessions) {
+    session.attach(editor);
+    session.restored = true;
+  }
+  return suspended.sessions;
+}
+
+// Follows the changes made to a document while its sessions are suspended, such as the edits of a
+// formatter or of another program. A session whose text was edited can no longer be restored.
+export function trackSuspendedSessions(
+  document: vscode.TextDocument,
+  changes: readonly vscode.TextDocumentContentChangeEvent[]
+) {
+  let uri = document.uri.toString();
+  let suspended = SUSPENDED_SESSIONS.get(uri);
+  if (!suspended) return;
+
+  suspended.sessions = suspended.sessions.filter((session) => !session.overlaps(changes));
+  for (let session of suspended.sessions) {
+    session.instances.forEach((instance) => instance.shift(changes));
+  }
+  if (!suspended.sessions.length) SUSPENDED_SESSIONS.delete(uri);
+}
+
+export function discardSuspendedSessions(document: vscode.TextDocument) {
+  SUSPENDED_SESSIONS.delete(document.uri.toString());
+}
+
+/**
+ * The sessions of every editor, the innermost first, since a snippet expanded in a placeholder of
+ * another is pushed on top of it. The extension keeps it up to date with the events of vscode, and
+ * the snippet tests with the ones of the editor they simulate.
+ */
+export class SnippetStack {
+  private sessions: SnippetSession[] = [];
+
+  // The sessions of a document, the innermost first.
+  of(document: vscode.TextDocument) {
+    return this.sessions.filter((session) => session.editor.document === document);
+  }
+
+  // Adds a session whose instances were inserted, unless they have no placeholder to move to.
+  push(session: SnippetSession) {
+    if (session.selectedPlaceholder != 0) this.sessions.unshift(session);
+  }
+
+  remove(session: SnippetSession) {
+    let index = this.sessions.indexOf(session);
+    if (index != -1) this.sessions.splice(index, 1);
+  }
+
+  leave(document: vscode.TextDocument) {
+    this.of(document).forEach((session) => this.remove(session));
+  }
+
+  // Moves the innermost session of a document to its next or previous placeholder, and leaves it
+  // once it has none, as vscode then goes back to the placeholders of the session it's nested in.
+  // Returns the session which moved.
+  jump(document: vscode.TextDocument, direction: 1 | -1) {
+    let session = this.of(document)[0];
+    if (!session) return undefined;
+
+    let moved = direction == 1 ? session.nextPlaceholder() : session.prevPlaceholder();
+    if (!moved) this.remove(session);
+    return session;
+  }
+
+  // Leaves the sessions of a document which no selection is in, keeping the ones containing the
+  // innermost session a selection is in.
+  leaveUnselected(document: vscode.TextDocument, selections: readonly vscode.Range[]) {
+    for (let session of this.of(document)) {
+      if (selections.some((selection) => session.contains(selection))) break;
+      this.remove(session);
+    }
+  }
+
+  // Follows the changes of a document. Undoing or redoing brings back text the code blocks were run
+  // for, so the sessions go back to their state for that text instead of running them again, and
+  // they're left when there's none. Otherwise the edits of the code blocks are made in the editor
+  // of the innermost session, along with the change which caused them, so a single undo reverts
+  // both.
+  async trackChanges(
+    document: vscode.TextDocument,
+    changes: readonly vscode.TextDocumentContentChangeEvent[],
+    undoOrRedo: boolean
+  ) {
+    let sessions = this.of(document);
+
+    if (undoOrRedo) {
+      for (let session of sessions) {
+        if (!session.overlaps(changes)) session.trackChanges(changes);
+        else if (!session.rewind()) this.remove(session);
+      }
+      return;
+    }
+
+    let edits = sessions.flatMap((session) => session.trackChanges(changes));
+    if (edits.length == 0) return;
+
+    let applied = false;
+    try {
+      applied = await sessions[0].editor.edit(
+        (edit) => edits.forEach(({ range, text }) => edit.replace(range, text)),
+        { undoStopBefore: false, undoStopAfter: false }
+      );
+    } finally {
+      if (!applied) sessions.forEach((session) => session.discardPendingEdits());
+    }
+  }
+
+  // Suspends the sessions of the editors which were hidden, by document, since a document gets a
+  // new editor when it's shown again, and restores the ones of the documents which are shown again.
+  // Sessions are only kept for `lifetime` seconds, and not at all when it's 0.
+  updateVisibleEditors(editors: readonly vscode.TextEditor[], lifetime: number) {
+    let hidden = this.sessions.filter((session) => !editors.includes(session.editor));
+    hidden.forEach((session) => this.remove(session));
+
+    if (lifetime > 0) {
+      for (let document of new Set(hidden.map((session) => session.editor.document))) {
+        let sessions = hidden.filter((session) => session.editor.document === document);
+        suspendSessions(document, sessions, lifetime);
+      }
+    }
+
+    for (let editor of editors) this.sessions.push(...restoreSessions(editor));
+  }
+}
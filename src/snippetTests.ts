@@ -0,0 +1,368 @@
+import type * as vscode from 'vscode';
+import * as path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { HSnippet } from './hsnippet';
+import { HSnippetInstance } from './hsnippetInstance';
+import { parseFile, IParseOptions } from './parser';
+import { getCompletions, getExpansion, CompletionInfo } from './completion';
+import { getExpansionContext } from './utils';
+import { getHost } from './host';
+import { createMemoryEditor, ITextEdit, MemoryDocument } from './memoryEditor';
+import { sortByPriority } from './snippetFiles';
+import {
+  createCursorInstances,
+  findCursorExpansions,
+  getTypedPositions,
+  SnippetSession,
+  SnippetStack,
+} from './snippetSession';
+
+export interface ISnippetTestResult {
+  name: string;
+  filePath: string;
+  line: number;
+  passed: boolean;
+  expected: string;
+  actual: string;
+  error?: string;
+}
+
+const KEYS = ['<tab>', '<s-tab>', '<esc>', '<undo>', '<redo>', '<cursor>'];
+
+interface IEditorState {
+  text: string;
+  selections: [number, number][];
+}
+
+// Moves an offset of the document to where it is after the changes.
+function mapOffset(offset: number, changes: vscode.TextDocumentContentChangeEvent[]) {
+  let delta = 0;
+  for (let change of changes) {
+    let end = change.rangeOffset + change.rangeLength;
+    if (offset >= end) delta += change.text.length - change.rangeLength;
+    else if (offset > change.rangeOffset) delta += change.rangeOffset + change.text.length - offset;
+  }
+  return offset + delta;
+}
+
+// Simulates an editor where text is typed, emulating what vscode does when snippets are expanded
+// and tab stops are jumped to, and passing its events to the snippet stack as the extension does.
+class TestSession {
+  document: MemoryDocument;
+  editor: vscode.TextEditor;
+  snippets: HSnippet[];
+  stack = new SnippetStack();
+  // The selections, as offsets in the document.
+  selections: [number, number][] = [[0, 0]];
+  pendingEdits: Promise<void>[] = [];
+  insertingSnippet = false;
+  // The states before each key which changed the text, which are undone along with the edits of
+  // the code blocks the key caused, and the states undone.
+  undoStack: IEditorState[] = [];
+  redoStack: IEditorState[] = [];
+  // The state the current key is undone to.
+  keyState: IEditorState = { text: '', selections: [] };
+
+  constructor(snippets: HSnippet[], languageId: string) {
+    this.snippets = snippets;
+    this.document = new MemoryDocument(languageId);
+
+    this.editor = createMemoryEditor(this.document, (edits) => {
+      // Like vscode, the edit is applied asynchronously.
+      let applied = Promise.resolve().then(() => {
+        this.applyEdits(edits);
+      });
+      this.pendingEdits.push(applied);
+      return applied;
+    });
+  }
+
+  get cursor() {
+    return this.document.positionAt(this.selections[0][1]);
+  }
+
+  async run(input: string) {
+    let i = 0;
+    while (i < input.length) {
+      let key = KEYS.find((k) => input.startsWith(k, i));
+      this.keyState = this.getState();
+
+      if (key == '<undo>') this.undo(this.undoStack, this.redoStack);
+      else if (key == '<redo>') this.undo(this.redoStack, this.undoStack);
+      else if (key == '<tab>') await this.tab();
+      else if (key == '<s-tab>') this.shiftTab();
+      else if (key == '<esc>') this.escape();
+      else if (key == '<cursor>') this.selections = [...this.selections, [0, 0]];
+      else await this.type(input[i]);
+
+      i += key ? key.length : 1;
+      await this.settle();
+      this.leaveSnippetsOutsideSelection();
+
+      if (key != '<undo>' && key != '<redo>') this.pushUndoState(this.keyState);
+    }
+
+    return this.document.text;
+  }
+
+  // Waits for the edits made by code blocks and transformations.
+  private async settle() {
+    while (this.pendingEdits.length) {
+      let pendingEdits = this.pendingEdits;
+      this.pendingEdits = [];
+      await Promise.all(pendingEdits);
+    }
+  }
+
+  private toRange([start, end]: [number, number]) {
+    let { Range } = getHost();
+    return new Range(this.document.positionAt(start), this.document.positionAt(end));
+  }
+
+  private applyEdits(edits: ITextEdit[]) {
+    let changes = this.document.applyEdits(edits);
+    this.selections = this.selections.map(([start, end]) => [
+      mapOffset(start, changes),
+      mapOffset(end, changes),
+    ]);
+    this.pendingEdits.push(this.stack.trackChanges(this.editor.document, changes, false));
+    return changes;
+  }
+
+  private getState(): IEditorState {
+    return { text: this.document.text, selections: this.selections };
+  }
+
+  private pushUndoState(state: IEditorState) {
+    if (state.text == this.document.text) return;
+    this.undoStack.push(state);
+    this.redoStack = [];
+  }
+
+  // Goes back to the last state of `from`, replacing the text which differs in a single change.
+  private undo(from: IEditorState[], to: IEditorState[]) {
+    let state = from.pop();
+    if (!state) return;
+    to.push(this.getState());
+
+    let text = this.document.text;
+    let start = 0;
+    while (start < text.length && text[start] == state.text[start]) start++;
+    let end = 0;
+    let maxEnd = Math.min(text.length, state.text.length) - start;
+    while (end < maxEnd && text[text.length - end - 1] == state.text[state.text.length - end - 1]) {
+      end++;
+    }
+
+    let changes = this.document.applyEdits([
+      {
+        range: this.toRange([start, text.length - end]),
+        text: state.text.substring(start, state.text.length - end),
+      },
+    ]);
+    this.pendingEdits.push(this.stack.trackChanges(this.editor.document, changes, true));
+    this.selections = state.selections;
+  }
+
+  private async type(text: string) {
+    let edits = this.selections.map((selection) => ({ range: this.toRange(selection), text }));
+    let starts = this.selections.map(([start]) => start);
+    let changes = this.applyEdits(edits);
+
+    // The typed text is inserted where the selections start, leaving the cursors after it.
+    this.selections = starts.map((start) => {
+      let offset = start + text.length;
+      for (let c of changes) if (c.rangeOffset < start) offset += c.text.length - c.rangeLength;
+      return [offset, offset];
+    });
+    await this.settle();
+
+    if (this.insertingSnippet) return;
+
+    // As in the extension, the snippet is expanded at the first cursor where an automatic snippet
+    // matches, and at the others where the same snippet matches.
+    let positions = getTypedPositions(changes);
+    for (let position of positions) {
+      let completions = getCompletions(this.editor.document, position, this.snippets);
+      if (completions && !Array.isArray(completions)) {
+        // Automatic expansions are undone on their own, back to the typed trigger.
+        this.pushUndoState(this.keyState);
+        this.keyState = this.getState();
+        await this.expand(completions, positions);
+        return;
+      }
+    }
+  }
+
+  private get cursors() {
+    return this.selections.filter(([start, end]) => start == end).map(([, end]) => end);
+  }
+
+  // Expands the first snippet whose whole trigger is before the cursor, or else jumps to the next
+  // tab stop, or else inserts indentation.
+  private async tab() {
+    let completion = getExpansion(this.editor.document, this.cursor, this.snippets);
+
+    let session = !completion && this.stack.jump(this.editor.document, 1);
+
+    if (completion) {
+      let cursors = this.cursors.map((offset) => this.document.positionAt(offset));
+      await this.expand(completion, cursors);
+    } else if (session) {
+      this.selectPlaceholder(session);
+    } else {
+      await this.type(' '.repeat(4));
+    }
+  }
+
+  private shiftTab() {
+    let session = this.stack.jump(this.editor.document, -1);
+    if (session) this.selectPlaceholder(session);
+  }
+
+  private escape() {
+    this.stack.leave(this.editor.document);
+    this.selections = [[this.selections[0][1], this.selections[0][1]]];
+  }
+
+  private leaveSnippetsOutsideSelection() {
+    let selections = this.selections.map((selection) => this.toRange(selection));
+    this.stack.leaveUnselected(this.editor.document, selections);
+  }
+
+  // Selects every occurrence of the selected tab stop, or the final tab stop once there's none.
+  private selectPlaceholder(session: SnippetSession) {
+    this.selections = session.getPlaceholderRanges().map((range) => [
+      this.document.offsetAt(range.start),
+      this.document.offsetAt(range.end),
+    ]);
+  }
+
+  // Expands a snippet at the cursor, and at the other `cursors` where the extension would.
+  private async expand(completion: CompletionInfo, cursors: vscode.Position[]) {
+    let triggerRange = completion.range;
+    this.insertingSnippet = true;
+
+    let expansions = [{ completion, range: triggerRange }];
+    if (!completion.snippet.hooks.preExpand) {
+      let document = this.editor.document;
+      expansions = findCursorExpansions(document, expansions[0], cursors, () => this.snippets);
+    }
+
+    let created = expansions.length > 1 && createCursorInstances(this.editor, expansions);
+    let instances = created
+      ? created.instances
+      : [
+          new HSnippetInstance(
+            completion.snippet,
+            this.editor,
+            triggerRange.start,
+            completion.groups,
+            getExpansionContext(this.editor, triggerRange, completion.label)
+          ),
+        ];
+    let ranges = created ? expansions.map((e) => e.range) : [triggerRange];
+
+    // vscode indents the lines of the snippet like the line it's inserted in.
+    this.applyEdits(instances.map((instance, i) => instance.getInsertion(ranges[i])));
+    await this.settle();
+
+    let session = new SnippetSession(this.editor, instances);
+    this.stack.push(session);
+    if (created && created.deferBlocks) {
+      await session.fillBlocks();
+      await this.settle();
+    }
+    this.selectPlaceholder(session);
+    this.insertingSnippet = false;
+  }
+}
+
+// Types `input` in an empty document where `snippets` are available, and returns the text of the
+// document, the hooks of the snippets aren't run.
+export function runSnippetInput(snippets: HSnippet[], languageId: string, input: string) {
+  return new TestSession(snippets, languageId).run(input);
+}
+
+async function runTest(
+  snippets: HSnippet[],
+  languageId: string,
+  test: { name: string; filePath: string; line: number; input: string; output: string }
+): Promise<ISnippetTestResult> {
+  let result = { ...test, passed: false, expected: test.output, actual: '' };
+
+  try {
+    result.actual = await runSnippetInput(snippets, languageId, test.input);
+    result.passed = result.actual == result.expected;
+  } catch (error) {
+    return { ...result, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return result;
+}
+
+function readFixture(filePath: string) {
+  return readFileSync(filePath, 'utf-8').replace(/\r\n/g, '\n').replace(/\n$/, '');
+}
+
+// Runs the tests declared in an hsnips file, along with the `<name>.input.txt` and
+// `<name>.output.txt` fixture next to it, if there's one. `content` replaces the content of the
+// file, to test unsaved changes.
+export async function runSnippetFileTests(
+  filePath: string,
+  content?: string,
+  parseOptions: IParseOptions = {}
+): Promise<ISnippetTestResult[]> {
+  if (content === undefined) content = readFileSync(filePath, 'utf-8');
+  let snippets = parseFile(content, filePath, parseOptions).snippets;
+  // The snippets are offered by priority, as they are once loaded.
+  let available = sortByPriority([...snippets]);
+
+  let name = path.basename(filePath, '.hsnips');
+  let languageId = name == 'all' ? 'plaintext' : name;
+  let results = [];
+
+  for (let snippet of snippets) {
+    for (let test of snippet.tests) {
+      let testName = test.name || snippet.description || snippet.trigger || String(snippet.regexp);
+      results.push(await runTest(available, languageId, { ...test, name: testName, filePath }));
+    }
+  }
+
+  let inputPath = path.join(path.dirname(filePath), `${name}.input.txt`);
+  let outputPath = path.join(path.dirname(filePath), `${name}.output.txt`);
+  if (existsSync(inputPath) && existsSync(outputPath)) {
+    results.push(
+      await runTest(available, languageId, {
+        name: path.basename(inputPath),
+        filePath,
+        line: 1,
+        input: readFixture(inputPath),
+        output: readFixture(outputPath),
+      })
+    );
+  }
+
+  return results;
+}
+
+function indentText(text: string) {
+  return text
+    .split('\n')
+    .map((line) => `    ${line}`)
+    .join('\n');
+}
+
+export function formatTestResult(result: ISnippetTestResult) {
+  let location = `${path.basename(result.filePath)}:${result.line}`;
+  if (result.passed) return `PASS ${location} ${result.name}`;
+
+  let lines = [`FAIL ${location} ${result.name}`];
+  if (result.error) {
+    lines.push(`  error: ${result.error}`);
+  } else {
+    lines.push('  expected:', indentText(result.expected), '  actual:', indentText(result.actual));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,135 @@
+import { performance } from 'perf_hooks';
+import { setHost, getHost } from '../host';
+import { nodeHost } from '../nodeHost';
+import { parseFile } from '../parser';
+import { MemoryDocument, createMemoryEditor } from '../memoryEditor';
+import { CompletionInfo, getCompletions, getCompletionsLinear } from '../completion';
+import { getSnippetIndex } from '../snippetIndex';
+
+// Compares the indexed completions to matching every snippet, on a snippet file the size of a
+// large LaTeX collection, checking that both give the same completions at every position.
+//   npm run benchmark
+
+const SNIPPET_COUNT = 800;
+const PASSES = 5;
+
+// A fixed sequence of numbers, so the runs can be compared.
+function createRandom(seed: number) {
+  return (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return Math.floor((seed / 2147483648) * max);
+  };
+}
+
+const random = createRandom(42);
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const pick = <T>(items: ArrayLike<T>) => items[random(items.length)];
+const randomWord = (length: number) => Array.from({ length }, () => pick(LETTERS)).join('');
+
+// The literal triggers, which the text is partly made of.
+const TRIGGERS: string[] = [];
+
+function generateSnippets(): string {
+  let snippets: string[] = [];
+
+  for (let i = 0; i < SNIPPET_COUNT; i++) {
+    let kind = random(100);
+    let flags = pick(['', 'A', 'A', 'i', 'iA', 'w', 'wA', 'b']);
+    let header;
+
+    if (kind < 60) {
+      let trigger = randomWord(2 + random(4));
+      TRIGGERS.push(trigger);
+      header = `snippet ${trigger} "literal ${i}" ${flags}`;
+    } else if (kind < 98) {
+      let pattern = pick([
+        `([a-zA-Z])${randomWord(2)}`,
+        `(\\\\?[a-zA-Z]\\w*)${randomWord(3)}`,
+        `([a-zA-Z])(\\d)`,
+        `(^|\\s)${randomWord(2)}\\.`,
+        `(\\w+)\\s${randomWord(2)}`,
+      ]);
+      header = `snippet \`${pattern}\` "regex ${i}" ${flags.replace(/[iwb]/g, '')}`;
+    } else {
+      header = `snippet \`${randomWord(2)}\\n${randomWord(2)}\` "multiline ${i}" M`;
+    }
+
+    let context = random(8) == 0 ? 'context context.scopes.length == 0\n' : '';
+    snippets.push(`${context}${header}\n${randomWord(6)} $1\nendsnippet\n`);
+  }
+
+  return snippets.join('\n');
+}
+
+function generateText(): string {
+  let lines: string[] = [];
+  for (let i = 0; i < 40; i++) {
+    let words = Array.from({ length: 8 }, () =>
+      pick([
+        randomWord(1 + random(6)),
+        `\\${randomWord(3)}`,
+        `x${random(10)}`,
+        pick(TRIGGERS),
+        randomWord(2) + pick(TRIGGERS),
+      ])
+    );
+    lines.push(words.join(' '));
+  }
+  return lines.join('\n');
+}
+
+function describe(result: CompletionInfo[] | CompletionInfo | undefined): string {
+  const describeCompletion = (c: CompletionInfo) =>
+    [c.snippet.description, c.label, c.range.start.character, c.range.end.character, ...c.groups];
+  if (!result) return 'undefined';
+  if (Array.isArray(result)) return JSON.stringify(result.map(describeCompletion));
+  return JSON.stringify({ automatic: describeCompletion(result) });
+}
+
+function run() {
+  setHost(nodeHost);
+
+  let snippets = parseFile(generateSnippets()).snippets;
+  let document = new MemoryDocument('tex');
+  document.text = generateText();
+  let editor = createMemoryEditor(document, async () => undefined);
+
+  let { Position } = getHost();
+  let positions = document.text
+    .split('\n')
+    .flatMap((line, i) => Array.from({ length: line.length + 1 }, (_, c) => new Position(i, c)));
+
+  let start = performance.now();
+  getSnippetIndex(snippets);
+  let indexTime = performance.now() - start;
+
+  for (let position of positions) {
+    let indexed = describe(getCompletions(editor.document, position, snippets));
+    let linear = describe(getCompletionsLinear(editor.document, position, snippets));
+    if (indexed != linear) {
+      console.error(`Completions differ at ${position.line}:${position.character}`);
+      console.error(`  index:  ${indexed}\n  linear: ${linear}`);
+      return false;
+    }
+  }
+
+  const time = (getResults: typeof getCompletions) => {
+    let start = performance.now();
+    for (let pass = 0; pass < PASSES; pass++) {
+      for (let position of positions) getResults(editor.document, position, snippets);
+    }
+    return ((performance.now() - start) * 1000) / (PASSES * positions.length);
+  };
+
+  let linearTime = time(getCompletionsLinear);
+  let indexedTime = time(getCompletions);
+
+  console.log(`${snippets.length} snippets, ${positions.length} positions, same completions`);
+  console.log(`index built in ${indexTime.toFixed(1)}ms`);
+  console.log(`linear:  ${linearTime.toFixed(1)}µs per position`);
+  console.log(`indexed: ${indexedTime.toFixed(1)}µs per position`);
+  console.log(`${(linearTime / indexedTime).toFixed(1)}x faster`);
+  return true;
+}
+
+process.exit(run() ? 0 : 1);
@@ -0,0 +1,173 @@
+import type * as vscode from 'vscode';
+import { setHost, getHost } from '../host';
+import { nodeHost } from '../nodeHost';
+import { MemoryDocument } from '../memoryEditor';
+import { DynamicRange, RangeStickiness } from '../dynamicRange';
+
+// Applies random sequences of edits to documents with ranges of every stickiness, and compares the
+// ranges to a model which keeps their edges as markers between the characters of the document.
+//   npm test
+
+const SEQUENCES = 2000;
+const EVENTS = 20;
+
+// A fixed sequence of numbers, so a failure can be reproduced.
+function createRandom(seed: number) {
+  return (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return Math.floor((seed / 2147483648) * max);
+  };
+}
+
+const random = createRandom(7);
+const pick = <T>(items: ArrayLike<T>) => items[random(items.length)];
+// Line breaks of both kinds, which are one or two offsets long.
+const randomText = (length: number) =>
+  Array.from({ length }, () => pick(['a', 'b', 'c', ' ', '\n', '\r\n'])).join('');
+
+type Token = { char: string } | { marker: 'start' | 'end' };
+
+// The document as its characters and the edges of the range, a change replaces the characters and
+// puts the edges found where it is before or after its text.
+class ReferenceRange {
+  tokens: Token[];
+  stickiness: RangeStickiness;
+
+  constructor(text: string, start: number, end: number, stickiness: RangeStickiness) {
+    this.tokens = [...text].map((char) => ({ char }));
+    this.tokens.splice(end, 0, { marker: 'end' });
+    this.tokens.splice(start, 0, { marker: 'start' });
+    this.stickiness = stickiness;
+  }
+
+  private goesAfter(marker: 'start' | 'end') {
+    if (marker == 'start') return this.stickiness == RangeStickiness.ClosedOpen;
+    return this.stickiness != RangeStickiness.OpenClosed;
+  }
+
+  private indexOfChar(offset: number) {
+    let chars = -1;
+    for (let i = 0; i < this.tokens.length; i++) {
+      if ('char' in this.tokens[i] && ++chars == offset) return i;
+    }
+    return this.tokens.length;
+  }
+
+  // The changes are applied from the end of the document, so the ones left are still in place.
+  apply(changes: vscode.TextDocumentContentChangeEvent[]) {
+    for (let { rangeOffset, rangeLength, text } of [...changes].reverse()) {
+      let first = rangeOffset == 0 ? 0 : this.indexOfChar(rangeOffset - 1) + 1;
+      let last = this.indexOfChar(rangeOffset + rangeLength);
+      let replaced = this.tokens.slice(first, last);
+
+      let before: Token[] = [];
+      let after: Token[] = [];
+      replaced.forEach((token, i) => {
+        if (!('marker' in token)) return;
+        // Around replaced characters, the markers at the edges of the change stay there.
+        let charBefore = replaced.slice(0, i).some((t) => 'char' in t);
+        let charAfter = replaced.slice(i + 1).some((t) => 'char' in t);
+        if (rangeLength > 0 && !charBefore) before.push(token);
+        else if (rangeLength > 0 && !charAfter) after.push(token);
+        else (this.goesAfter(token.marker) ? after : before).push(token);
+      });
+
+      let inserted = [...text].map((char) => ({ char }));
+      this.tokens.splice(first, last - first, ...before, ...inserted, ...after);
+    }
+  }
+
+  offsetOf(marker: 'start' | 'end') {
+    let offset = 0;
+    for (let token of this.tokens) {
+      if ('char' in token) offset++;
+      else if (token.marker == marker) return offset;
+    }
+    return -1;
+  }
+
+  get text() {
+    let text = '';
+    for (let token of this.tokens) if ('char' in token) text += token.char;
+    return text;
+  }
+}
+
+// Changes which don't overlap, though they may touch, sorted by offset as vscode gives them.
+function randomChanges(document: MemoryDocument): vscode.TextDocumentContentChangeEvent[] {
+  let changes: vscode.TextDocumentContentChangeEvent[] = [];
+  let length = document.text.length;
+  let offset = random(3) == 0 ? 0 : random(length + 1);
+
+  for (let count = 1 + random(3); count > 0 && offset <= length; count--) {
+    let rangeLength = pick([0, 0, 1, 2, 5].map((n) => Math.min(n, length - offset)));
+    let text = pick(['', 'x', randomText(1 + random(4))]);
+    if (rangeLength == 0 && text == '') text = 'y';
+
+    let { Range } = getHost();
+    let end = offset + rangeLength;
+    let range = new Range(document.positionAt(offset), document.positionAt(end));
+    changes.push({ range, rangeOffset: offset, rangeLength, text });
+    offset = end + (rangeLength == 0 ? 1 : 0) + random(4);
+  }
+
+  return changes;
+}
+
+function applyChanges(document: MemoryDocument, changes: vscode.TextDocumentContentChangeEvent[]) {
+  for (let { rangeOffset, rangeLength, text } of [...changes].reverse()) {
+    let end = rangeOffset + rangeLength;
+    document.text = document.text.substring(0, rangeOffset) + text + document.text.substring(end);
+  }
+}
+
+function describe(changes: vscode.TextDocumentContentChangeEvent[]) {
+  return JSON.stringify(changes.map((c) => [c.rangeOffset, c.rangeLength, c.text]));
+}
+
+function run() {
+  setHost(nodeHost);
+  let stickinesses = [
+    RangeStickiness.OpenOpen,
+    RangeStickiness.OpenClosed,
+    RangeStickiness.ClosedOpen,
+  ];
+
+  for (let sequence = 0; sequence < SEQUENCES; sequence++) {
+    let document = new MemoryDocument('plaintext');
+    document.text = randomText(random(12));
+    let length = document.text.length;
+    let start = random(length + 1);
+    let end = start + random(length - start + 1);
+    let stickiness = pick(stickinesses);
+
+    let range = new DynamicRange(document, start, end);
+    let reference = new ReferenceRange(document.text, start, end, stickiness);
+    let events: string[] = [];
+
+    for (let event = 0; event < EVENTS; event++) {
+      let changes = randomChanges(document);
+      events.push(describe(changes));
+
+      applyChanges(document, changes);
+      range.update(changes.map((change) => ({ change, stickiness })));
+      reference.apply(changes);
+
+      let expected = [reference.offsetOf('start'), reference.offsetOf('end')];
+      let text = document.getText(range.range);
+      let expectedText = reference.text.substring(expected[0], expected[1]);
+      if (range.start == expected[0] && range.end == expected[1] && text == expectedText) continue;
+
+      console.error(`FAIL dynamicRange: sequence ${sequence}, ${RangeStickiness[stickiness]}`);
+      console.error(`  range:    ${range.start}..${range.end} ${JSON.stringify(text)}`);
+      console.error(`  expected: ${expected[0]}..${expected[1]} ${JSON.stringify(expectedText)}`);
+      console.error(`  from ${start}..${end}, changes:\n    ${events.join('\n    ')}`);
+      return false;
+    }
+  }
+
+  console.log(`PASS dynamicRange: ${SEQUENCES} sequences of ${EVENTS} edits\n`);
+  return true;
+}
+
+process.exit(run() ? 0 : 1);
@@ -0,0 +1,14 @@
+import * as path from 'path';
+import { runTestCli } from '../testCli';
+import { runUnitTests } from './suite';
+import './jsonSnippets';
+import './parser';
+import './sandbox';
+import './snippetSession';
+import './ultisnips';
+
+// Runs the unit tests, then the tests of the snippet files in `expansions`.
+let unitTestsPassed = runUnitTests();
+runTestCli([path.join(__dirname, '..', '..', 'src', 'test', 'expansions')]).then((success) =>
+  process.exit(success && unitTestsPassed ? 0 : 1)
+);
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { parse } from '../parser';
+import { HSnippetUtils } from '../hsnippetUtils';
+import { parseJsonSnippets, exportJsonSnippets } from '../jsonSnippets';
+import { isJsonSnippetFile } from '../snippetFiles';
+import { test } from './suite';
+
+test('jsonSnippets', 'allows comments and trailing commas outside of strings', () => {
+  let content = [
+    '{',
+    '  // A list, with a trailing comma in its body.',
+    '  "List": {',
+    '    "prefix": "list", /* inline */',
+    '    "body": ["[a, ]", "f(x, ) // kept"],',
+    '  },',
+    '}',
+  ].join('\n');
+  let [snippet] = parseJsonSnippets(content, 'list.code-snippets', 'all').get('all') || [];
+  assert.strictEqual(snippet.trigger, 'list');
+  assert.deepStrictEqual(snippet.generator([], [], '', '', new HSnippetUtils())[0], [
+    '[a, ]\nf(x, ) // kept',
+  ]);
+});
+
+test('jsonSnippets', 'skips the snippets it cannot export, with the reason', () => {
+  let snippets = parse(
+    [
+      'snippet lit "Literal"',
+      '$1, ]',
+      'endsnippet',
+      'snippet auto "Automatic" Ab',
+      'x',
+      'endsnippet',
+      'snippet `\\d+x` "Regex"',
+      'x',
+      'endsnippet',
+      'snippet code "Code"',
+      '``rv = 1``',
+      'endsnippet',
+    ].join('\n')
+  );
+  let { content, skipped } = exportJsonSnippets(snippets, 'tex');
+  assert.deepStrictEqual(JSON.parse(content), {
+    Literal: { prefix: 'lit', body: ['$1, ]'], description: 'Literal', scope: 'tex' },
+  });
+  assert.deepStrictEqual(skipped, [
+    'Automatic: the A, b flags are not supported',
+    'Regex: regex triggers are not supported',
+    'Code: snippets with code blocks are not supported',
+  ]);
+});
+
+test('jsonSnippets', 'only takes the JSON files named after a language for snippet files', () => {
+  let languageIds = new Set(['latex', 'json']);
+  assert.ok(isJsonSnippetFile('all.code-snippets', languageIds));
+  assert.ok(isJsonSnippetFile('LaTeX.json', languageIds));
+  assert.ok(!isJsonSnippetFile('package.json', languageIds));
+  assert.ok(!isJsonSnippetFile('tsconfig.json', languageIds));
+  assert.ok(!isJsonSnippetFile('latex.hsnips', languageIds));
+});
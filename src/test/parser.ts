@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { parse } from '../parser';
+import { HSnippetUtils } from '../hsnippetUtils';
+import { test } from './suite';
+
+// Runs the code blocks of the first snippet of `content`, returning their results and errors.
+function runBlocks(content: string) {
+  let [, blocks, errors] = parse(content)[0].generator([], [], '', '', new HSnippetUtils());
+  return { blocks, errors: errors.map((e) => String(e.error)) };
+}
+
+test('parser', 'keeps the declarations of a block available to the next ones', () => {
+  let { blocks, errors } = runBlocks(
+    ['snippet x', '``let a = 1; const b = 2;``', '``rv = a + b``', 'endsnippet'].join('\n')
+  );
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(blocks, ['', '3']);
+});
+
+test('parser', 'skips regexes containing quotes and brackets', () => {
+  let { blocks, errors } = runBlocks(
+    [
+      'snippet x',
+      "``let quotes = /'/g; let open = /[(']/;",
+      'const text = "it\'s (".replace(quotes, "").replace(open, "");``',
+      '``rv = text + " " + (4 / 2 / 1)``',
+      'endsnippet',
+    ].join('\n')
+  );
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(blocks, ['', 'its  2']);
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { parse } from '../parser';
+import { HSnippetUtils } from '../hsnippetUtils';
+import { test } from './suite';
+
+// Runs a code block of a snippet parsed as a file of the workspace, which can require `path`.
+function runSandboxed(code: string, timeout = 1000) {
+  let content = ['snippet x', '``' + code + '``', 'endsnippet'].join('\n');
+  let options = { sandbox: { allowedModules: ['path'], timeout } };
+  let snippet = parse(content, '', options)[0];
+  let [, blocks, errors] = snippet.generator(['a'], ['x'], '', '', new HSnippetUtils());
+  return { blocks, errors: errors.map((e) => String(e.error)) };
+}
+
+test('sandbox', 'requires the allowed modules only', () => {
+  assert.deepStrictEqual(runSandboxed("rv = require('path').join('a', 'b')").blocks, ['a/b']);
+
+  let { errors } = runSandboxed("rv = require('child_process')");
+  assert.strictEqual(errors.length, 1);
+  assert.match(errors[0], /Module 'child_process' can't be required/);
+});
+
+test('sandbox', "doesn't give the constructors of the extension host to the code", () => {
+  let escapes = [
+    "require.constructor('return process')()",
+    "console.log.constructor('return process')()",
+    "snip.constructor.constructor('return process')()",
+    "t.constructor.constructor('return process')()",
+    "Object.getPrototypeOf(require).constructor('return process')()",
+    "require('path').join.__proto__.constructor('return process')()",
+    "(function () {}).constructor('return process')()",
+  ];
+
+  for (let escape of escapes) {
+    let { blocks } = runSandboxed(`try { rv = typeof ${escape}.pid } catch (e) { rv = 'blocked' }`);
+    assert.notStrictEqual(blocks[0], 'number', escape);
+  }
+});
+
+test('sandbox', 'lets the code use the objects it is given', () => {
+  let code = 'snip.tabstop(1, t.map((s) => s.toUpperCase()).join("")); rv = m[0] + t.length';
+  assert.deepStrictEqual(runSandboxed(code), { blocks: ['x1'], errors: [] });
+});
+
+test('sandbox', 'stops code which runs for too long', () => {
+  assert.throws(() => runSandboxed('while (true) {}', 50), /timed out/);
+});
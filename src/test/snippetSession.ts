@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { setHost } from '../host';
+import { nodeHost } from '../nodeHost';
+import { parse } from '../parser';
+import { HSnippetInstance } from '../hsnippetInstance';
+import { createMemoryEditor, ITextEdit, MemoryDocument } from '../memoryEditor';
+import { getExpansionContext } from '../utils';
+import {
+  discardSuspendedSessions,
+  SnippetSession,
+  SnippetStack,
+  trackSuspendedSessions,
+} from '../snippetSession';
+import { test } from './suite';
+
+// A stack with the session of a snippet expanded on the second line of a document, where `\sqrt{}`
+// is inserted between `before` and `after`.
+function expandSnippet() {
+  setHost(nodeHost);
+  let memoryDocument = new MemoryDocument('plaintext');
+  memoryDocument.text = 'before\nafter';
+
+  let showDocument = () =>
+    createMemoryEditor(memoryDocument, async (edits) => {
+      memoryDocument.applyEdits(edits);
+    });
+  let editor = showDocument();
+  let document = editor.document;
+  discardSuspendedSessions(document);
+
+  let { Position, Range } = nodeHost;
+  let range = new Range(new Position(1, 0), new Position(1, 0));
+  let snippet = parse('snippet sq\n\\sqrt{$1}\nendsnippet')[0];
+  let context = getExpansionContext(editor, range, '');
+  let instance = new HSnippetInstance(snippet, editor, range.start, [], context);
+  memoryDocument.applyEdits([instance.getInsertion(range)]);
+
+  let stack = new SnippetStack();
+  let session = new SnippetSession(editor, [instance]);
+  stack.push(session);
+
+  // Edits the document while its editor is hidden.
+  let edit = (start: number, end: number, text: string) => {
+    let editRange = new Range(document.positionAt(start), document.positionAt(end));
+    let edits: ITextEdit[] = [{ range: editRange, text }];
+    trackSuspendedSessions(document, memoryDocument.applyEdits(edits));
+  };
+
+  return { document, editor, stack, session, instance, showDocument, edit };
+}
+
+test('snippetSession', 'restores the session of a document shown again', () => {
+  let { document, stack, session, instance, showDocument, edit } = expandSnippet();
+  stack.updateVisibleEditors([], 300);
+  assert.deepStrictEqual(stack.of(document), []);
+
+  edit(0, 0, 'just ');
+  let editor = showDocument();
+  stack.updateVisibleEditors([editor], 300);
+  assert.deepStrictEqual(stack.of(document), [session]);
+  assert.ok(session.restored);
+  assert.strictEqual(instance.editor, editor);
+  assert.strictEqual(document.getText(instance.range.range), '\\sqrt{}');
+});
+
+test('snippetSession', 'discards the session of a document edited in the snippet meanwhile', () => {
+  let { document, stack, showDocument, edit } = expandSnippet();
+  stack.updateVisibleEditors([], 300);
+
+  let start = document.getText().indexOf('{') + 1;
+  edit(start, start, 'x');
+  stack.updateVisibleEditors([showDocument()], 300);
+  assert.deepStrictEqual(stack.of(document), []);
+});
+
+test('snippetSession', "doesn't keep the sessions of hidden editors with a lifetime of 0", () => {
+  let { document, stack, showDocument } = expandSnippet();
+  stack.updateVisibleEditors([], 0);
+  stack.updateVisibleEditors([showDocument()], 0);
+  assert.deepStrictEqual(stack.of(document), []);
+});
+
+test('snippetSession', 'discards the sessions of hidden editors once their lifetime ends', () => {
+  let { document, stack, showDocument } = expandSnippet();
+  stack.updateVisibleEditors([], 1);
+
+  let now = Date.now;
+  Date.now = () => now() + 1000;
+  try {
+    stack.updateVisibleEditors([showDocument()], 1);
+  } finally {
+    Date.now = now;
+  }
+  assert.deepStrictEqual(stack.of(document), []);
+});
+
+test('snippetSession', 'keeps the sessions of editors which stay visible', () => {
+  let { document, editor, stack, session } = expandSnippet();
+  stack.updateVisibleEditors([editor], 300);
+  assert.deepStrictEqual(stack.of(document), [session]);
+  assert.ok(!session.restored);
+});
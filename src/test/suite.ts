@@ -0,0 +1,32 @@
+// A minimal runner for the tests of the modules which don't need an editor, registered by the
+// files of this directory with `test` and run by `index.ts` before the tests of the snippet files.
+
+interface IUnitTest {
+  suite: string;
+  name: string;
+  run: () => void;
+}
+
+const TESTS: IUnitTest[] = [];
+
+export function test(suite: string, name: string, run: () => void) {
+  TESTS.push({ suite, name, run });
+}
+
+export function runUnitTests() {
+  let failed = 0;
+
+  for (let { suite, name, run } of TESTS) {
+    try {
+      run();
+      console.log(`PASS ${suite}: ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`FAIL ${suite}: ${name}`);
+      console.error(`  ${error instanceof Error ? error.message : error}`.replace(/\n/g, '\n  '));
+    }
+  }
+
+  console.log(`\n${TESTS.length - failed} passed, ${failed} failed\n`);
+  return failed == 0;
+}
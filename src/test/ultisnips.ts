@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import { convertUltiSnips, getUltiSnipsLanguage } from '../ultisnips';
+import { test } from './suite';
+
+// Converts the lines of an UltiSnips file, returning the lines of the hsnips file and the warnings
+// as `line: message`.
+function convert(lines: string[]) {
+  let { content, warnings } = convertUltiSnips(lines.join('\n'));
+  return { lines: content.split('\n'), warnings: warnings.map((w) => `${w.line}: ${w.message}`) };
+}
+
+test('ultisnips', 'names the language after the file', () => {
+  assert.strictEqual(getUltiSnipsLanguage('/snippets/tex.snippets'), 'tex');
+  assert.strictEqual(getUltiSnipsLanguage('/snippets/Python_django.snippets'), 'python');
+});
+
+test('ultisnips', 'translates snip.rv assignments', () => {
+  let { lines, warnings } = convert([
+    'snippet up "Upper" A',
+    '${2:b}${1:a} `!p snip.rv = t[1].upper() + " " + t[2].strip()`',
+    '`!p snip.rv = snip.fn`',
+    'endsnippet',
+  ]);
+  assert.deepStrictEqual(warnings, []);
+  assert.deepStrictEqual(lines, [
+    'snippet up "Upper" A',
+    '${2:b}${1:a} ``rv = t[1].toUpperCase()+" "+t[0].trim();``',
+    "``rv = require('path').basename(decodeURIComponent(path));``",
+    'endsnippet',
+  ]);
+});
+
+test('ultisnips', 'translates match groups of regex triggers', () => {
+  let { lines, warnings } = convert([
+    'snippet "(\\w+)\\.par" "Paren" rA',
+    '(`!p snip.rv = match.group(1)`)',
+    'endsnippet',
+  ]);
+  assert.deepStrictEqual(warnings, []);
+  assert.deepStrictEqual(lines, [
+    'snippet `(\\w+)\\.par` "Paren" A',
+    '(``rv = m[1];``)',
+    'endsnippet',
+  ]);
+});
+
+test('ultisnips', 'runs shell interpolations with execSync', () => {
+  let { lines, warnings } = convert(['snippet date "Date"', '`date +%F`', 'endsnippet']);
+  assert.deepStrictEqual(warnings, []);
+  assert.strictEqual(
+    lines[1],
+    '``rv = require(\'child_process\').execSync("date +%F", { encoding: \'utf8\' })' +
+      ".replace(/\\n$/, '')``"
+  );
+});
+
+test('ultisnips', 'parses triggers, descriptions and options', () => {
+  let { lines, warnings } = convert([
+    'snippet "two words" "Spaces" bw',
+    'x',
+    'endsnippet',
+    'snippet |x y| "Delimited" iA',
+    'x',
+    'endsnippet',
+    'snippet q "Quote" e',
+    'x',
+    'endsnippet',
+    'snippet x y',
+    'x',
+    'endsnippet',
+  ]);
+  assert.deepStrictEqual(warnings, [
+    "7: Option 'e' is not supported, the snippet is commented out",
+    '10: Invalid multiword trigger: x y',
+  ]);
+  assert.deepStrictEqual(lines, [
+    'snippet `(?<=^|\\s)two words` "Spaces" bw',
+    'x',
+    'endsnippet',
+    'snippet `x y` "Delimited" iA',
+    'x',
+    'endsnippet',
+    '# snippet q "Quote" e',
+    '# x',
+    '# endsnippet',
+    '# snippet x y',
+    '# x',
+    '# endsnippet',
+  ]);
+});
+
+test('ultisnips', 'gives every following snippet the priority', () => {
+  let { lines } = convert([
+    'priority 10',
+    'snippet a',
+    'a',
+    'endsnippet',
+    'snippet b',
+    'b',
+    'endsnippet',
+  ]);
+  assert.deepStrictEqual(lines, [
+    'priority 10',
+    'snippet a',
+    'a',
+    'endsnippet',
+    'priority 10',
+    'snippet b',
+    'b',
+    'endsnippet',
+  ]);
+});
+
+test('ultisnips', 'comments out and reports what it cannot translate', () => {
+  let { lines, warnings } = convert([
+    'clearsnippets',
+    'global !p',
+    'def f(): pass',
+    'endglobal',
+    'context "math()"',
+    'snippet ff "Fraction" A',
+    '\\frac{$1}{$2}',
+    'endsnippet',
+    'snippet f',
+    '`!p snip.rv = f()` `!v strftime("%Y")`',
+    'endsnippet',
+  ]);
+  assert.deepStrictEqual(warnings, [
+    '1: clearsnippets is not supported, the snippets it clears stay active',
+    '2: Global code could not be translated',
+    '5: Context could not be translated, the snippet is commented out: "math()"',
+    '10: Python interpolation could not be translated: !p snip.rv = f()',
+    '10: Vim interpolation could not be translated: !v strftime("%Y")',
+  ]);
+  assert.deepStrictEqual(lines, [
+    '# clearsnippets',
+    '# global !p',
+    '# def f(): pass',
+    '# endglobal',
+    '# context "math()"',
+    '# snippet ff "Fraction" A',
+    '# \\frac{$1}{$2}',
+    '# endsnippet',
+    'snippet f',
+    ' ',
+    'endsnippet',
+  ]);
+});
+
+test('ultisnips', 'reports unterminated snippets and interpolations', () => {
+  let { warnings } = convert(['snippet a', '`date']);
+  assert.deepStrictEqual(warnings, ['1: Missing `endsnippet`', '2: Unterminated interpolation']);
+});
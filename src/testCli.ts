@@ -0,0 +1,55 @@
+import * as path from 'path';
+import { readdirSync, statSync } from 'fs';
+import { setHost } from './host';
+import { nodeHost } from './nodeHost';
+import { runSnippetFileTests, formatTestResult } from './snippetTests';
+
+// Runs the tests of hsnips files from the command line, without vscode:
+//   node out/testCli.js <file or directory>...
+// Directories are searched for hsnips files, the process fails when a test fails.
+
+function findSnippetFiles(target: string): string[] {
+  if (!statSync(target).isDirectory()) return [target];
+
+  return readdirSync(target)
+    .filter((file) => file.endsWith('.hsnips'))
+    .sort()
+    .map((file) => path.join(target, file));
+}
+
+export async function runTestCli(targets: string[]) {
+  setHost(nodeHost);
+
+  let passed = 0;
+  let failed = 0;
+
+  for (let filePath of targets.flatMap((target) => findSnippetFiles(path.resolve(target)))) {
+    let results;
+    try {
+      results = await runSnippetFileTests(filePath);
+    } catch (error) {
+      console.error(`FAIL ${filePath}: ${error instanceof Error ? error.message : error}`);
+      failed++;
+      continue;
+    }
+
+    for (let result of results) {
+      console.log(formatTestResult(result));
+      if (result.passed) passed++;
+      else failed++;
+    }
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  return failed == 0;
+}
+
+if (require.main === module) {
+  let targets = process.argv.slice(2);
+  if (!targets.length) {
+    console.error('Usage: node out/testCli.js <hsnips file or directory>...');
+    process.exit(2);
+  }
+
+  runTestCli(targets).then((success) => process.exit(success ? 0 : 1));
+}
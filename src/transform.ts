@@ -0,0 +1,143 @@
+// Transformations of the content of a placeholder, as in `${1/regex/format/flags}`. The format
+// follows the vscode syntax, `$1`, `${1:/upcase}`, `${1:+if}`, `${1:?if:else}`, `${1:-else}`, and
+// the UltiSnips one, `\u`, `\l`, `\U`, `\L`, `\E` and `(?1:if:else)`.
+
+export interface ITransform {
+  regex: RegExp;
+  format: string;
+}
+
+interface IFormatResult {
+  text: string;
+  end: number;
+}
+
+const CASE_FUNCTIONS: Map<string, (value: string) => string> = new Map([
+  ['upcase', (value: string) => value.toUpperCase()],
+  ['downcase', (value: string) => value.toLowerCase()],
+  ['capitalize', (value: string) => value.charAt(0).toUpperCase() + value.substring(1)],
+  [
+    'camelcase',
+    (value: string) =>
+      value
+        .split(/[-_\s]+/)
+        .filter((w) => w)
+        .map((w, i) => (i ? w.charAt(0).toUpperCase() + w.substring(1) : w.toLowerCase()))
+        .join(''),
+  ],
+  [
+    'pascalcase',
+    (value: string) =>
+      value
+        .split(/[-_\s]+/)
+        .map((w) => w.charAt(0).toUpperCase() + w.substring(1))
+        .join(''),
+  ],
+]);
+
+const GROUP_REGEX = /\$(\d+)|\$\{(\d+)\}|\$\{(\d+):\/(\w+)\}|\$\{(\d+):([-+?]?)/y;
+
+export function parseTransform(source: string, format: string, flags: string): ITransform {
+  // UltiSnips has an `a` flag for ascii matching, which javascript doesn't need.
+  return { regex: new RegExp(source, flags.replace(/[^gimsuy]/g, '')), format };
+}
+
+// Reads the text of a format until one of the `stops` characters, the groups in it are replaced by
+// their value in `match`.
+function expandFormat(
+  format: string,
+  match: string[],
+  start: number,
+  stops: string
+): IFormatResult {
+  let text = '';
+  let nextCase = '';
+  let caseMode = '';
+  let i = start;
+
+  const append = (value: string) => {
+    if (caseMode == 'U') value = value.toUpperCase();
+    if (caseMode == 'L') value = value.toLowerCase();
+    if (nextCase && value) {
+      let first = nextCase == 'u' ? value[0].toUpperCase() : value[0].toLowerCase();
+      value = first + value.substring(1);
+      nextCase = '';
+    }
+    text += value;
+  };
+
+  const readBranch = (branchStops: string) => {
+    let branch = expandFormat(format, match, i, branchStops);
+    i = branch.end;
+    return branch.text;
+  };
+
+  while (i < format.length && !stops.includes(format[i])) {
+    let char = format[i];
+
+    if (char == '\\' && i + 1 < format.length) {
+      let escaped = format[i + 1];
+      i += 2;
+
+      if ('ul'.includes(escaped)) nextCase = escaped;
+      else if ('UL'.includes(escaped)) caseMode = escaped;
+      else if (escaped == 'E') caseMode = '';
+      else if (escaped == 'n') append('\n');
+      else if (escaped == 't') append('\t');
+      else append(escaped);
+      continue;
+    }
+
+    GROUP_REGEX.lastIndex = i;
+    let groupMatch = char == '$' ? GROUP_REGEX.exec(format) : null;
+
+    if (groupMatch) {
+      i += groupMatch[0].length;
+      let group = Number(groupMatch[1] || groupMatch[2] || groupMatch[3] || groupMatch[5]);
+      let value = match[group] || '';
+
+      if (groupMatch[1] || groupMatch[2]) {
+        append(value);
+      } else if (groupMatch[3]) {
+        let caseFunction = CASE_FUNCTIONS.get(groupMatch[4]);
+        append(caseFunction ? caseFunction(value) : value);
+      } else {
+        let operator = groupMatch[6];
+        let hasIf = operator == '+' || operator == '?';
+        let ifText = hasIf ? readBranch(operator == '?' ? ':}' : '}') : '';
+        if (operator == '?' && format[i] == ':') i++;
+        let elseText = operator != '+' ? readBranch('}') : '';
+        i++;
+
+        append(value ? (hasIf ? ifText : value) : elseText);
+      }
+    } else if (char == '(' && format[i + 1] == '?' && /^\d+:/.test(format.substring(i + 2))) {
+      let group = Number(/^\d+/.exec(format.substring(i + 2)));
+      i = format.indexOf(':', i) + 1;
+
+      let ifText = readBranch(':)');
+      let elseText = '';
+      if (format[i] == ':') {
+        i++;
+        elseText = readBranch(')');
+      }
+      i++;
+
+      append(match[group] !== undefined ? ifText : elseText);
+    } else {
+      append(char);
+      i++;
+    }
+  }
+
+  return { text, end: i };
+}
+
+export function applyTransform(value: string, transform: ITransform): string {
+  // An empty alternative always matches, which tells how many groups the regex has.
+  let groupCount = (new RegExp(`${transform.regex.source}|`).exec('') as RegExpExecArray).length;
+
+  return value.replace(transform.regex, (...args) => {
+    return expandFormat(transform.format, args.slice(0, groupCount), 0, '').text;
+  });
+}
@@ -0,0 +1,357 @@
+import * as path from 'path';
+
+export interface IConversionWarning {
+  // The 1-based line of the UltiSnips file where the construct is.
+  line: number;
+  message: string;
+}
+
+export interface IUltiSnipsConversion {
+  content: string;
+  warnings: IConversionWarning[];
+}
+
+interface IUltiSnipsHeader {
+  trigger: string;
+  description: string;
+  options: string;
+}
+
+// Options which have an hsnips flag with the same meaning, `r` is handled by turning the trigger
+// into a regex trigger.
+const TRANSLATED_OPTIONS = 'Aiwbr';
+
+// Whitespace, string literals, numbers, names and the operators allowed in translated expressions.
+const TOKEN_REGEX = /\s+|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\d+|[A-Za-z_]\w*|==|!=|<=|>=|[-+()[\].,<>]/y;
+
+const PYTHON_CONSTANTS: Map<string, string> = new Map([
+  ['True', 'true'],
+  ['False', 'false'],
+  ['None', 'null'],
+  ['and', '&&'],
+  ['or', '||'],
+  ['not', '!'],
+  ['str', 'String'],
+]);
+
+const PYTHON_STRING_METHODS: Map<string, string> = new Map([
+  ['upper', 'toUpperCase'],
+  ['lower', 'toLowerCase'],
+  ['strip', 'trim'],
+  ['lstrip', 'trimStart'],
+  ['rstrip', 'trimEnd'],
+  ['replace', 'replaceAll'],
+  ['startswith', 'startsWith'],
+  ['endswith', 'endsWith'],
+]);
+
+const SNIP_ATTRIBUTES: Map<string, string> = new Map([
+  ['fn', `require('path').basename(decodeURIComponent(path))`],
+  ['basename', `require('path').parse(decodeURIComponent(path)).name`],
+]);
+
+// UltiSnips files may be named `language.snippets` or `language_anything.snippets`.
+export function getUltiSnipsLanguage(filePath: string) {
+  return path.basename(filePath, path.extname(filePath)).split('_')[0].toLowerCase();
+}
+
+// Follows the way UltiSnips splits a snippet header into trigger, description and options, the
+// trigger must be surrounded by a delimiter character when it has spaces or is a regex.
+function parseHeader(line: string): IUltiSnipsHeader {
+  let remain = line.substring('snippet'.length).trim();
+  let words = remain.split(/\s+/);
+  let options = '';
+  let description = '';
+
+  let lastWord = words[words.length - 1];
+  if (words.length > 2 && !lastWord.includes('"') && words[words.length - 2].endsWith('"')) {
+    options = words[words.length - 1];
+    remain = remain.substring(0, remain.length - options.length).trim();
+  }
+
+  words = remain.split(/\s+/);
+  if (words.length > 1 && remain.endsWith('"')) {
+    let left = remain.lastIndexOf('"', remain.length - 2);
+    if (left > 0) {
+      description = remain.substring(left + 1, remain.length - 1);
+      remain = remain.substring(0, left);
+    }
+  }
+
+  let trigger = remain.trim();
+  if (trigger.split(/\s+/).length > 1 || options.includes('r')) {
+    if (trigger[0] != trigger[trigger.length - 1]) {
+      throw new Error(`Invalid multiword trigger: ${trigger}`);
+    }
+    trigger = trigger.substring(1, trigger.length - 1);
+  }
+
+  return { trigger, description, options };
+}
+
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Lists the tabstop numbers of a snippet body in the order they appear, which is the order in
+// which their contents are available in the `t` array of hsnips code blocks.
+function getTabstopOrder(body: string) {
+  let text = body.replace(/\\./g, '').replace(/`[^`]*`/g, '');
+  let order = [];
+  let tabstopRegex = /\$(\d+)|\$\{(\d+)[}:|]/g;
+  let match;
+
+  while ((match = tabstopRegex.exec(text))) {
+    order.push(Number(match[1] || match[2]));
+  }
+
+  return order;
+}
+
+// Translates simple python expressions, made of string operations on tabstops and match groups,
+// returns `null` when the expression uses anything else.
+function translateExpression(expression: string, tabstopOrder: number[]): string | null {
+  let tokens: string[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    TOKEN_REGEX.lastIndex = index;
+    let match = TOKEN_REGEX.exec(expression);
+    if (!match) return null;
+
+    index += match[0].length;
+    if (match[0].trim()) tokens.push(match[0]);
+  }
+
+  let result = '';
+  for (let i = 0; i < tokens.length; i++) {
+    let token = tokens[i];
+    let next = tokens.slice(i + 1, i + 6);
+
+    if (token == 't' && next[0] == '[' && /^\d+$/.test(next[1]) && next[2] == ']') {
+      let tabstopIndex = tabstopOrder.indexOf(Number(next[1]));
+      if (tabstopIndex == -1) return null;
+      result += `t[${tabstopIndex}]`;
+      i += 3;
+    } else if (token == 'match' && next.slice(0, 3).join('') == '.group(') {
+      if (!/^\d+$/.test(next[3]) || next[4] != ')') return null;
+      result += `m[${next[3]}]`;
+      i += 5;
+    } else if (token == 'snip' && next[0] == '.' && SNIP_ATTRIBUTES.has(next[1])) {
+      result += SNIP_ATTRIBUTES.get(next[1]);
+      i += 2;
+    } else if (token == '.' && PYTHON_STRING_METHODS.has(next[0])) {
+      result += `.${PYTHON_STRING_METHODS.get(next[0])}`;
+      i += 1;
+    } else if (PYTHON_CONSTANTS.has(token)) {
+      result += ` ${PYTHON_CONSTANTS.get(token)} `;
+    } else if (/^["'\d]/.test(token) || /^(==|!=|<=|>=|[-+(),<>])$/.test(token)) {
+      result += token;
+    } else {
+      return null;
+    }
+  }
+
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+// Translates `!p` interpolations which only assign to `snip.rv`.
+function translatePython(code: string, tabstopOrder: number[]): string | null {
+  let statements = [];
+
+  for (let line of code.split('\n')) {
+    line = line.trim();
+    if (!line) continue;
+
+    let match = /^snip\.rv\s*(\+?=)\s*(.+)$/.exec(line);
+    if (!match) return null;
+
+    let expression = translateExpression(match[2], tabstopOrder);
+    if (expression === null) return null;
+
+    statements.push(`rv ${match[1]} ${expression};`);
+  }
+
+  return statements.length ? statements.join(' ') : null;
+}
+
+function convertBody(
+  body: string,
+  firstLine: number,
+  warn: (line: number, message: string) => void
+): string {
+  let tabstopOrder = getTabstopOrder(body);
+  let result = '';
+  let i = 0;
+
+  const lineAt = (index: number) => firstLine + body.substring(0, index).split('\n').length - 1;
+
+  while (i < body.length) {
+    if (body[i] == '\\' && body[i + 1] == '`') {
+      result += '`';
+      i += 2;
+    } else if (body[i] == '\\') {
+      result += body.substring(i, i + 2);
+      i += 2;
+    } else if (body[i] == '`') {
+      let end = body.indexOf('`', i + 1);
+      if (end == -1) {
+        warn(lineAt(i), 'Unterminated interpolation');
+        result += body.substring(i);
+        break;
+      }
+
+      let code = body.substring(i + 1, end);
+      if (code.startsWith('!p')) {
+        let translated = translatePython(code.substring(2), tabstopOrder);
+        if (translated === null) {
+          warn(lineAt(i), `Python interpolation could not be translated: ${code.trim()}`);
+        } else {
+          result += `\`\`${translated}\`\``;
+        }
+      } else if (code.startsWith('!v')) {
+        warn(lineAt(i), `Vim interpolation could not be translated: ${code.trim()}`);
+      } else {
+        let command = JSON.stringify(code);
+        result +=
+          `\`\`rv = require('child_process')` +
+          `.execSync(${command}, { encoding: 'utf8' }).replace(/\\n$/, '')\`\``;
+      }
+
+      i = end + 1;
+    } else {
+      result += body[i];
+      i++;
+    }
+  }
+
+  if (/\$\{VISUAL\//.test(result)) {
+    warn(firstLine, 'Transformations of the ${VISUAL} placeholder are not supported');
+  }
+
+  if (/\$\{\d+\//.test(result)) {
+    warn(firstLine, 'Tabstop transformations follow the vscode syntax and may behave differently');
+  }
+
+  return result;
+}
+
+function convertHeader(
+  header: IUltiSnipsHeader,
+  line: number,
+  warn: (line: number, message: string) => void
+): string | null {
+  let trigger = header.trigger;
+  let isRegex = header.options.includes('r');
+
+  if (isRegex) {
+    trigger = trigger.replace(/\(\?P</g, '(?<').replace(/\(\?P=(\w+)\)/g, '\\k<$1>');
+  } else if (/\s/.test(trigger) || trigger.startsWith('`')) {
+    // Triggers with the `i` option also expand inside words.
+    let start = header.options.includes('i') ? '' : '(?<=^|\\s)';
+    trigger = `${start}${escapeRegex(trigger)}`;
+    isRegex = true;
+  }
+
+  if (isRegex && trigger.includes('`')) {
+    warn(line, `Triggers with backticks can't be converted: ${header.trigger}`);
+    return null;
+  }
+
+  // Snippets with a context expression would expand everywhere without it.
+  if (header.options.includes('e')) {
+    warn(line, `Option 'e' is not supported, the snippet is commented out`);
+    return null;
+  }
+
+  for (let option of header.options) {
+    if (!TRANSLATED_OPTIONS.includes(option)) {
+      warn(line, `Option '${option}' is not supported`);
+    }
+  }
+
+  let flags = header.options.replace(/[^Aiwb]/g, '');
+  let parts = ['snippet', isRegex ? `\`${trigger}\`` : trigger];
+  if (header.description) parts.push(`"${header.description.replace(/"/g, "'")}"`);
+  if (flags) parts.push(flags);
+
+  return parts.join(' ');
+}
+
+// Converts an UltiSnips `.snippets` file into an hsnips file, constructs that can't be translated,
+// such as python code other than simple `snip.rv` assignments, are left out, or commented out, and
+// reported as warnings.
+export function convertUltiSnips(content: string): IUltiSnipsConversion {
+  let lines = content.split(/\r?\n/);
+  let output: string[] = [];
+  let warnings: IConversionWarning[] = [];
+  let priority = 0;
+  let context: string | undefined = undefined;
+  let contextLine = 0;
+  let i = 0;
+
+  const warn = (line: number, message: string) => warnings.push({ line, message });
+
+  while (i < lines.length) {
+    let line = lines[i];
+    let lineNumber = ++i;
+
+    if (line.startsWith('#') || !line.trim()) {
+      output.push(line);
+    } else if (line.startsWith('priority ')) {
+      // UltiSnips priorities apply to every following snippet, hsnips ones only to the next one.
+      priority = Number(line.substring('priority '.length).trim()) || 0;
+    } else if (line.startsWith('extends ')) {
+      output.push(line);
+    } else if (line.startsWith('context ')) {
+      context = line.substring('context '.length).trim();
+      contextLine = lineNumber;
+    } else if (line.startsWith('global ')) {
+      warn(lineNumber, 'Global code could not be translated');
+      output.push(`# ${line}`);
+      while (i < lines.length && !lines[i].startsWith('endglobal')) output.push(`# ${lines[i++]}`);
+      if (i < lines.length) output.push(`# ${lines[i++]}`);
+    } else if (line.startsWith('snippet ')) {
+      let body: string[] = [];
+      while (i < lines.length && !lines[i].startsWith('endsnippet')) body.push(lines[i++]);
+      if (i >= lines.length) warn(lineNumber, 'Missing `endsnippet`');
+      let end = lines[i++];
+
+      // Snippets with a context would expand everywhere without it, so they're left out.
+      let header;
+      if (context) {
+        let message = `Context could not be translated, the snippet is commented out: ${context}`;
+        warn(contextLine, message);
+      } else {
+        try {
+          header = convertHeader(parseHeader(line), lineNumber, warn);
+        } catch (error) {
+          warn(lineNumber, error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      if (!header) {
+        if (context) output.push(`# context ${context}`);
+        output.push(...[line, ...body].map((l) => `# ${l}`));
+        if (end !== undefined) output.push(`# ${end}`);
+        context = undefined;
+        continue;
+      }
+
+      if (priority) output.push(`priority ${priority}`);
+      output.push(header);
+      output.push(convertBody(body.join('\n'), lineNumber + 1, warn));
+      output.push('endsnippet');
+      context = undefined;
+    } else if (line.startsWith('clearsnippets')) {
+      warn(lineNumber, 'clearsnippets is not supported, the snippets it clears stay active');
+      output.push(`# ${line}`);
+    } else {
+      let directive = line.split(/\s/)[0];
+      warn(lineNumber, `The ${directive} directive is not supported`);
+      output.push(`# ${line}`);
+    }
+  }
+
+  return { content: output.join('\n'), warnings };
+}
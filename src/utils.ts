@@ -1,6 +1,8 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
+import { getHost, IOutputChannel } from './host';
+import { IExpansionContext } from './hsnippetUtils';
 
 export enum SnippetDirType {
   Global,
@@ -10,6 +12,8 @@ export enum SnippetDirType {
 export interface SnippetDirInfo {
   readonly type: SnippetDirType;
   readonly path: string;
+  // Name of the workspace folder the directory belongs to, for workspace directories.
+  readonly workspaceFolder?: string;
 }
 
 /**
@@ -18,19 +22,136 @@ export interface SnippetDirInfo {
 const pathPrefixExpanders: {
   readonly [prefix: string]: {
     readonly finalPathType: SnippetDirType;
-    readonly prefixExpanderFunc: () => string | null;
+    readonly prefixExpanderFunc: (workspaceFolderPath: string | null) => string | null;
   };
 } = {
-  '~': ({ finalPathType: SnippetDirType.Global, prefixExpanderFunc: os.homedir, }),
-  '${workspaceFolder}': ({ finalPathType: SnippetDirType.Workspace, prefixExpanderFunc: getWorkspaceFolderPath, }),
+  '~': ({ finalPathType: SnippetDirType.Global, prefixExpanderFunc: () => os.homedir(), }),
+  '${workspaceFolder}': ({ finalPathType: SnippetDirType.Workspace, prefixExpanderFunc: (workspaceFolderPath) => workspaceFolderPath, }),
 };
 
 function getWorkspaceFolderPath(): string | null {
-  return vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath || null;
+  return getHost().getWorkspaceFolders()[0]?.uri?.fsPath || null;
+}
+
+let outputChannel: IOutputChannel | undefined;
+
+export function getOutputChannel(): IOutputChannel {
+  if (!outputChannel) outputChannel = getHost().createOutputChannel('HyperSnips');
+  return outputChannel;
+}
+
+// Describes where a snippet replacing `range` is expanded, for the `snip` variable of code blocks.
+export function getExpansionContext(
+  editor: vscode.TextEditor,
+  range: vscode.Range,
+  trigger: string,
+  visual = ''
+): Partial<IExpansionContext> {
+  let document = editor.document;
+  let line = document.lineAt(range.start.line);
+
+  return {
+    line: range.start.line,
+    lineText: line.text,
+    before: line.text.substring(0, range.start.character),
+    after: document.lineAt(range.end.line).text.substring(range.end.character),
+    trigger,
+    languageId: document.languageId,
+    indentation: line.text.substring(0, line.firstNonWhitespaceCharacterIndex),
+    tabSize: Number(editor.options.tabSize) || 4,
+    insertSpaces: editor.options.insertSpaces !== false,
+    visual,
+  };
 }
 
 export function lineRange(character: number, position: vscode.Position): vscode.Range {
-  return new vscode.Range(position.line, character, position.line, position.character);
+  return new (getHost().Range)(position.line, character, position.line, position.character);
+}
+
+/**
+ * Resolves a configured snippet directory path, relative paths and paths starting with `${workspaceFolder}` are
+ * resolved against `workspaceFolderPath`, unless `ignoreWorkspace` is set. Returns `null` when the path can't be
+ * resolved to an absolute path.
+ */
+function resolveSnippetDirPath(
+  hsnipsPath: string,
+  workspaceFolderPath: string | null,
+  ignoreWorkspace: boolean,
+): SnippetDirInfo | null {
+  // normalize to ensure that the correct platform-specific file separators are used
+  let resolvedPath: string | null = path.normalize(hsnipsPath);
+
+  let type: SnippetDirType | null = null;
+
+  // first some "preprocessing" is done on the configured path: expanding leading '~' and '${workspaceFolder}'
+  for (const prefix in pathPrefixExpanders) {
+    // a leading string like '~foo' is ignored, only '~' or '~/foo' values are taken
+    if (resolvedPath !== prefix && !resolvedPath.startsWith(prefix + path.sep)) {
+      continue;
+    }
+
+    const expandingInfo = pathPrefixExpanders[prefix];
+
+    if (ignoreWorkspace && expandingInfo.finalPathType == SnippetDirType.Workspace) {
+      // this expander would've resulted in a workspace folder path; skip it
+      continue;
+    }
+
+    const expandedPrefix = expandingInfo.prefixExpanderFunc(workspaceFolderPath);
+
+    if (expandedPrefix) {
+      resolvedPath = expandedPrefix + resolvedPath.substring(prefix.length);
+      type = expandingInfo.finalPathType;
+    } else {
+      // in case the prefix did match, but the expanded function wasn't able to properly expand, the entire path will
+      // be invalidated
+      // e.g.: given the string '~/foo', but the home directory could not be determined for some reason
+      resolvedPath = null;
+      type = null;
+    }
+
+    break;
+  }
+
+  // this will only be falsy if the path was invalidated as a result of one of the expander functions failing to
+  // properly expanding a prefix
+  if (!resolvedPath) return null;
+
+  if (!ignoreWorkspace) {
+    if (!path.isAbsolute(resolvedPath) && workspaceFolderPath) {
+      resolvedPath = path.join(workspaceFolderPath, resolvedPath);
+      type = SnippetDirType.Workspace;
+    }
+  }
+
+  // at this point the path will only be relative in four cases:
+  //  * an already relative path was configured without a matching prefix to expand
+  //  * one of the expander functions messed up and returned a relative path
+  //  * the workspace folder path is relative
+  //  * the path would've been a workspace path, but the parameter `ignoreWorkspace` is set to `true`
+  if (!path.isAbsolute(resolvedPath)) return null;
+
+  return {
+    type: type === null ? SnippetDirType.Global : type,
+    path: resolvedPath,
+  };
+}
+
+/**
+ * Directories named in the settings of the workspace are chosen by whoever wrote the workspace, so they are workspace
+ * directories, whose snippets are sandboxed and only loaded in trusted workspaces, even when their path is absolute.
+ */
+function applySettingScope(dirInfo: SnippetDirInfo | null, key: string): SnippetDirInfo | null {
+  if (!dirInfo || dirInfo.type == SnippetDirType.Workspace || !getHost().isWorkspaceSetting(key)) return dirInfo;
+  return { ...dirInfo, type: SnippetDirType.Workspace };
+}
+
+function getGlobalStorageSnippetDir(context: vscode.ExtensionContext): SnippetDirInfo {
+  const globalStoragePath = context.globalStorageUri.fsPath;
+  return {
+    type: SnippetDirType.Global,
+    path: path.join(globalStoragePath, 'hsnips'),
+  };
 }
 
 /**
@@ -41,86 +162,96 @@ export function getSnippetDirInfo(
   context: vscode.ExtensionContext,
   options: { ignoreWorkspace: boolean } = { ignoreWorkspace: false },
 ): SnippetDirInfo {
-  let hsnipsPath = vscode.workspace.getConfiguration('hsnips').get('hsnipsPath') as string | null;
+  let hsnipsPath = getHost().getSetting<string | null>('hsnipsPath');
 
   // only non-empty strings are taken, anything else is discarded
   if (typeof hsnipsPath === 'string' && hsnipsPath.length > 0) {
-    // normalize to ensure that the correct platform-specific file separators are used
-    hsnipsPath = path.normalize(hsnipsPath);
+    const dirInfo = resolveSnippetDirPath(hsnipsPath, getWorkspaceFolderPath(), options.ignoreWorkspace);
+    if (dirInfo) return applySettingScope(dirInfo, 'hsnipsPath') as SnippetDirInfo;
+  }
 
-    let type: SnippetDirType | null = null;
+  return getGlobalStorageSnippetDir(context);
+}
 
-    // first some "preprocessing" is done on the configured path: expanding leading '~' and '${workspaceFolder}'
-    for (const prefix in pathPrefixExpanders) {
-      // a leading string like '~foo' is ignored, only '~' or '~/foo' values are taken
-      if (hsnipsPath !== prefix && !hsnipsPath.startsWith(prefix + path.sep)) {
-        continue;
-      }
+/**
+ * Lists every directory snippets are loaded from, from the highest to the lowest precedence: the directories of each
+ * workspace folder, in the order of the workspace folders, followed by the global directories. The configured
+ * `hsnips.hsnipsPath` and `hsnips.additionalPaths` are global directories when they are absolute or start with `~`,
+ * otherwise they are resolved against every workspace folder. Absolute paths set in the workspace settings are
+ * workspace directories instead. The global storage directory comes last, unless `hsnips.hsnipsPath` is a global
+ * directory, in which case it takes its place.
+ */
+export function getSnippetDirs(context: vscode.ExtensionContext): SnippetDirInfo[] {
+  const hsnipsPath = getHost().getSetting<string | null>('hsnipsPath');
+  const additionalPaths = getHost().getSetting<string[] | null>('additionalPaths');
 
-      const expandingInfo = pathPrefixExpanders[prefix];
+  // only non-empty strings are taken, anything else is discarded, each path is kept with its setting
+  const configuredPaths = [
+    { key: 'hsnipsPath', path: hsnipsPath },
+    ...(additionalPaths || []).map((p) => ({ key: 'additionalPaths', path: p })),
+  ].filter((p): p is { key: string; path: string } => typeof p.path === 'string' && p.path.length > 0);
 
-      if (options.ignoreWorkspace && expandingInfo.finalPathType == SnippetDirType.Workspace) {
-        // this expander would've resulted in a workspace folder path; skip it
-        continue;
+  const workspaceDirs: SnippetDirInfo[] = [];
+  for (const folder of getHost().getWorkspaceFolders()) {
+    for (const configuredPath of configuredPaths) {
+      const dirInfo = resolveSnippetDirPath(configuredPath.path, folder.uri.fsPath, false);
+      if (dirInfo && dirInfo.type == SnippetDirType.Workspace) {
+        workspaceDirs.push({ ...dirInfo, workspaceFolder: folder.name });
       }
+    }
+  }
 
-      const expandedPrefix = expandingInfo.prefixExpanderFunc();
-
-      if (expandedPrefix) {
-        hsnipsPath = expandedPrefix + hsnipsPath.substring(prefix.length);
-        type = expandingInfo.finalPathType;
-      } else {
-        // in case the prefix did match, but the expanded function wasn't able to properly expand, the entire path will
-        // be invalidated
-        // e.g.: given the string '~/foo', but the home directory could not be determined for some reason
-        hsnipsPath = null;
-        type = null;
-      }
+  const globalDirs = configuredPaths
+    .map((configuredPath) => {
+      const dirInfo = resolveSnippetDirPath(configuredPath.path, null, true);
+      return applySettingScope(dirInfo, configuredPath.key);
+    })
+    .filter((dirInfo): dirInfo is SnippetDirInfo => dirInfo !== null);
 
-      break;
-    }
+  const hsnipsPathDir =
+    typeof hsnipsPath === 'string' && hsnipsPath.length > 0
+      ? applySettingScope(resolveSnippetDirPath(hsnipsPath, null, true), 'hsnipsPath')
+      : null;
+  if (hsnipsPathDir?.type != SnippetDirType.Global) {
+    globalDirs.push(getGlobalStorageSnippetDir(context));
+  }
 
-    // this will only be falsy if the path was invalidated as a result of one of the expander functions failing to
-    // properly expanding a prefix
-    if (hsnipsPath) {
-      if (!options.ignoreWorkspace) {
-        const workspaceFolderPath = getWorkspaceFolderPath();
-        if (!path.isAbsolute(hsnipsPath) && workspaceFolderPath) {
-          hsnipsPath = path.join(workspaceFolderPath, hsnipsPath);
-          type = SnippetDirType.Workspace;
-        }
-      }
+  // the same directory may be configured more than once, only its first occurrence is kept
+  const seenPaths: Set<string> = new Set();
+  return [...workspaceDirs, ...globalDirs].filter((dirInfo) => {
+    if (seenPaths.has(dirInfo.path)) return false;
+    seenPaths.add(dirInfo.path);
+    return true;
+  });
+}
 
-      // at this point the path will only be relative in four cases:
-      //  * an already relative path was configured without a matching prefix to expand
-      //  * one of the expander functions messed up and returned a relative path
-      //  * the function `getWorkspaceFolderPath` messed and returned a relative path
-      //  * the path would've been a workspace path, but the parameter `ignoreWorkspace` is set to `true`
-      if (path.isAbsolute(hsnipsPath)) {
-        if (type === null) {
-          type = SnippetDirType.Global;
-        }
-
-        return {
-          type,
-          path: hsnipsPath,
-        };
-      }
-    }
+/**
+ * The snippet directory a file is in, the innermost one when directories are nested, or `undefined` for files outside
+ * of them.
+ */
+export function findSnippetDir(context: vscode.ExtensionContext, filePath: string): SnippetDirInfo | undefined {
+  let found: SnippetDirInfo | undefined;
+  for (const dirInfo of getSnippetDirs(context)) {
+    const relativePath = path.relative(dirInfo.path, filePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) continue;
+    if (!found || dirInfo.path.length > found.path.length) found = dirInfo;
   }
+  return found;
+}
 
-  const globalStoragePath = context.globalStorageUri.fsPath;
-  return {
-    type: SnippetDirType.Global,
-    path: path.join(globalStoragePath, 'hsnips'),
-  };
+/**
+ * Describes where a snippet directory comes from, for the user to know where a snippet was defined.
+ */
+export function describeSnippetDir(dirInfo: SnippetDirInfo): string {
+  if (dirInfo.workspaceFolder) return `workspace folder ${dirInfo.workspaceFolder}`;
+  return dirInfo.type == SnippetDirType.Workspace ? 'workspace settings' : 'global';
 }
 
 /**
  * @deprecated The paths here are hardcoded in. Only keep this function so that older users can migrate.
  */
 export function getOldGlobalSnippetDir(): string {
-  let hsnipsPath = vscode.workspace.getConfiguration('hsnips').get('hsnipsPath') as string | null;
+  let hsnipsPath = getHost().getSetting<string | null>('hsnipsPath');
 
   if (hsnipsPath && path.isAbsolute(hsnipsPath)) {
     return hsnipsPath;
@@ -140,22 +271,6 @@ export function getOldGlobalSnippetDir(): string {
   }
 }
 
-export function applyOffset(
-  position: vscode.Position,
-  text: string,
-  indent: number
-): vscode.Position {
-  text = text.replace('\\$', '$');
-  let lines = text.split('\n');
-  let newLine = position.line + lines.length - 1;
-  let charOffset = lines[lines.length - 1].length;
-
-  let newChar = position.character + charOffset;
-  if (lines.length > 1) newChar = indent + charOffset;
-
-  return position.with(newLine, newChar);
-}
-
 export function getWorkspaceUri(): string {
-  return vscode.workspace.workspaceFolders?.[0]?.uri?.toString() ?? '';
+  return getHost().getWorkspaceFolders()[0]?.uri?.toString() ?? '';
 }
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { IHost } from './host';
+
+export const vscodeHost: IHost = {
+  Position: vscode.Position,
+  Range: vscode.Range,
+  SnippetString: vscode.SnippetString,
+
+  getSetting: (key) => vscode.workspace.getConfiguration('hsnips').get(key),
+
+  isWorkspaceSetting(key) {
+    let values = vscode.workspace.getConfiguration('hsnips').inspect(key);
+    return values?.workspaceValue !== undefined || values?.workspaceFolderValue !== undefined;
+  },
+
+  getWorkspaceFolders: () => vscode.workspace.workspaceFolders || [],
+
+  // The scopes come from the hscopes extension, when it's active.
+  getScopes(document, position) {
+    try {
+      const hscopesExtension = vscode.extensions.getExtension('draivin.hscopes');
+      if (hscopesExtension && hscopesExtension.isActive && hscopesExtension.exports) {
+        const scopeResult = hscopesExtension.exports.getScopeAt(document, position);
+        if (scopeResult && scopeResult.scopes) {
+          return scopeResult.scopes;
+        }
+      }
+    } catch (error) {
+      console.warn('[HSnips] Failed to get scopes from hscopes extension:', error);
+    }
+  },
+
+  createOutputChannel: (name) => vscode.window.createOutputChannel(name),
+
+  showWarningMessage: (message) => {
+    vscode.window.showWarningMessage(message);
+  },
+};